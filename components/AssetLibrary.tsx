@@ -1,24 +1,37 @@
 import React, { useState } from 'react';
-import { MediaAsset, MediaType } from '../types';
+import { MediaAsset, MediaType, TransitionType, TextStyle } from '../types';
 import { Button } from './Button';
+import { TextEditorDialog } from './TextEditorDialog';
 import { generateAIAsset } from '../services/geminiService';
-import { Loader2, Plus, Image as ImageIcon, Video, Sparkles, Music, Type } from 'lucide-react';
+import { createThumbnail } from '../services/mediaService';
+import { TRANSITION_DRAG_TYPE, TRANSITION_LABELS } from '../services/projectService';
+import { isSubtitleFile } from '../services/subtitleService';
+import { Loader2, Plus, Image as ImageIcon, Video, Sparkles, Music, Type, Blend, Captions } from 'lucide-react';
 
 interface AssetLibraryProps {
   assets: MediaAsset[];
   onAddAsset: (asset: MediaAsset) => void;
   onAddToTimeline: (assetId: string) => void;
+  // Subtitle files become a whole track of cues, so the editor handles them
+  onImportSubtitles: (file: File) => void;
 }
 
-export const AssetLibrary: React.FC<AssetLibraryProps> = ({ assets, onAddAsset, onAddToTimeline }) => {
+export const AssetLibrary: React.FC<AssetLibraryProps> = ({ assets, onAddAsset, onAddToTimeline, onImportSubtitles }) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [prompt, setPrompt] = useState('');
   const [showGenModal, setShowGenModal] = useState(false);
+  const [showTextEditor, setShowTextEditor] = useState(false);
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    if (isSubtitleFile(file)) {
+        onImportSubtitles(file);
+        event.target.value = '';
+        return;
+    }
+
     const url = URL.createObjectURL(file);
     let type = MediaType.IMAGE;
     
@@ -29,44 +42,47 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ assets, onAddAsset,
     if (type === MediaType.VIDEO || type === MediaType.AUDIO) {
         const media = type === MediaType.VIDEO ? document.createElement('video') : document.createElement('audio');
         media.preload = 'metadata';
-        media.onloadedmetadata = () => {
+        media.onloadedmetadata = async () => {
             const newAsset: MediaAsset = {
                 id: crypto.randomUUID(),
                 type,
                 src: url,
                 name: file.name,
                 duration: media.duration || 10,
+                thumbnail: await createThumbnail(url, type),
             };
             onAddAsset(newAsset);
         };
         media.src = url;
     } else {
-        const newAsset: MediaAsset = {
-            id: crypto.randomUUID(),
-            type,
-            src: url,
-            name: file.name,
-            duration: 5, // Default image duration
-        };
-        onAddAsset(newAsset);
+        createThumbnail(url, type).then(thumbnail => {
+            const newAsset: MediaAsset = {
+                id: crypto.randomUUID(),
+                type,
+                src: url,
+                name: file.name,
+                duration: 5, // Default image duration
+                thumbnail,
+            };
+            onAddAsset(newAsset);
+        });
     }
     
     event.target.value = '';
   };
 
-  const handleAddText = () => {
-      const text = prompt('Enter text content:', 'Hello World');
-      if (text) {
-          const newAsset: MediaAsset = {
-              id: crypto.randomUUID(),
-              type: MediaType.TEXT,
-              src: '',
-              name: `T: ${text.slice(0, 10)}`,
-              duration: 3,
-              textContent: text
-          };
-          onAddAsset(newAsset);
-      }
+  const handleAddText = (text: string, textStyle: TextStyle) => {
+      const newAsset: MediaAsset = {
+          id: crypto.randomUUID(),
+          type: MediaType.TEXT,
+          src: '',
+          name: `T: ${text.slice(0, 10)}`,
+          duration: 3,
+          textContent: text,
+          textStyle
+      };
+      onAddAsset(newAsset);
+      setShowTextEditor(false);
   };
 
   const handleGenerateAI = async () => {
@@ -79,7 +95,8 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ assets, onAddAsset,
             type: MediaType.IMAGE,
             src: base64Image,
             name: `AI: ${prompt.slice(0, 15)}...`,
-            duration: 5
+            duration: 5,
+            thumbnail: await createThumbnail(base64Image, MediaType.IMAGE)
         };
         onAddAsset(newAsset);
         setShowGenModal(false);
@@ -97,6 +114,7 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ assets, onAddAsset,
           case MediaType.IMAGE: return <ImageIcon size={10} />;
           case MediaType.AUDIO: return <Music size={10} />;
           case MediaType.TEXT: return <Type size={10} />;
+          case MediaType.SUBTITLE: return <Captions size={10} />;
       }
   };
 
@@ -107,13 +125,13 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ assets, onAddAsset,
         
         <div className="grid grid-cols-4 gap-2 mb-2">
             <label className="flex flex-col items-center justify-center h-16 border border-dashed border-zinc-700 rounded-lg cursor-pointer hover:bg-zinc-800 hover:border-zinc-500 transition-all col-span-2">
-                <input type="file" className="hidden" accept="video/*,image/*,audio/*" onChange={handleFileUpload} />
+                <input type="file" className="hidden" accept="video/*,image/*,audio/*,.srt,.vtt" onChange={handleFileUpload} />
                 <Plus className="w-4 h-4 text-zinc-400 mb-1" />
                 <span className="text-[10px] text-zinc-400">Import</span>
             </label>
 
             <button 
-                onClick={handleAddText}
+                onClick={() => setShowTextEditor(true)}
                 className="flex flex-col items-center justify-center h-16 border border-zinc-700 bg-zinc-800 rounded-lg cursor-pointer hover:bg-zinc-700 transition-all"
             >
                 <Type className="w-4 h-4 text-zinc-400 mb-1" />
@@ -130,6 +148,28 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ assets, onAddAsset,
         </div>
       </div>
 
+      {/* Transitions: dragged onto a cut between two clips in the timeline */}
+      <div className="p-4 border-b border-zinc-800">
+        <h3 className="text-[10px] font-bold text-zinc-500 mb-2 uppercase tracking-wider">Transitions</h3>
+        <div className="grid grid-cols-2 gap-2">
+            {Object.values(TransitionType).map(type => (
+                <div
+                    key={type}
+                    draggable
+                    onDragStart={(e) => {
+                        e.dataTransfer.setData(TRANSITION_DRAG_TYPE, type);
+                        e.dataTransfer.effectAllowed = 'copy';
+                    }}
+                    className="flex items-center gap-2 px-2 h-8 rounded-md bg-zinc-800 border border-zinc-700 text-[11px] text-zinc-300 cursor-grab hover:bg-zinc-700 transition-colors"
+                    title="Drag onto a cut between two clips"
+                >
+                    <Blend size={12} className="text-purple-400 flex-shrink-0" />
+                    <span className="truncate">{TRANSITION_LABELS[type]}</span>
+                </div>
+            ))}
+        </div>
+      </div>
+
       {/* Asset List */}
       <div className="flex-1 overflow-y-auto p-4 space-y-3">
         {assets.length === 0 && (
@@ -146,6 +186,8 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ assets, onAddAsset,
                         <img src={asset.src} alt={asset.name} className="w-full h-full object-cover" />
                     ) : asset.type === MediaType.AUDIO ? (
                         <div className="w-full h-full bg-orange-900/30 flex items-center justify-center"><Music size={16} className="text-orange-400"/></div>
+                    ) : asset.type === MediaType.SUBTITLE ? (
+                        <div className="w-full h-full bg-sky-900/30 flex items-center justify-center"><Captions size={16} className="text-sky-400"/></div>
                     ) : (
                         <div className="w-full h-full bg-emerald-900/30 flex items-center justify-center"><Type size={16} className="text-emerald-400"/></div>
                     )}
@@ -158,17 +200,24 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ assets, onAddAsset,
                     <p className="text-sm font-medium text-zinc-200 truncate">{asset.name}</p>
                     <p className="text-xs text-zinc-500">{asset.duration.toFixed(1)}s</p>
                 </div>
-                <button 
-                    onClick={() => onAddToTimeline(asset.id)}
-                    className="absolute right-2 opacity-0 group-hover:opacity-100 bg-blue-600 p-1.5 rounded-full text-white shadow-lg hover:scale-105 transition-all"
-                    title="Add to Timeline"
-                >
-                    <Plus size={14} />
-                </button>
+                {/* Subtitle files are placed cue by cue on import */}
+                {asset.type !== MediaType.SUBTITLE && (
+                    <button
+                        onClick={() => onAddToTimeline(asset.id)}
+                        className="absolute right-2 opacity-0 group-hover:opacity-100 bg-blue-600 p-1.5 rounded-full text-white shadow-lg hover:scale-105 transition-all"
+                        title="Add to Timeline"
+                    >
+                        <Plus size={14} />
+                    </button>
+                )}
             </div>
         ))}
       </div>
 
+      {showTextEditor && (
+        <TextEditorDialog title="Add Text" onSave={handleAddText} onClose={() => setShowTextEditor(false)} />
+      )}
+
       {/* AI Generation Modal Overlay */}
       {showGenModal && (
         <div className="absolute inset-0 z-50 bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm">
@@ -0,0 +1,84 @@
+import React, { useEffect, useRef } from 'react';
+
+interface AudioMeterProps {
+  analysers: AnalyserNode[] | null; // One per channel
+}
+
+const FLOOR_DB = -60;
+// How fast the displayed level and peak marker fall, in dB per second
+const LEVEL_FALLOFF = 30;
+const PEAK_HOLD_SECONDS = 1;
+
+const toDb = (amplitude: number) => amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity;
+const toFraction = (db: number) => Math.min(Math.max((db - FLOOR_DB) / -FLOOR_DB, 0), 1);
+
+// Vertical peak meter per channel, green to red, with a held peak marker
+export const AudioMeter: React.FC<AudioMeterProps> = ({ analysers }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    // Empty bars until playback has started the mixer
+    const samples = new Float32Array(analysers?.[0]?.fftSize ?? 0);
+    const levels = Array.from({ length: analysers?.length ?? 2 }, () => ({ db: -Infinity, peak: -Infinity, peakTime: 0 }));
+    let frame = 0;
+    let last = performance.now();
+
+    const render = (now: number) => {
+        const elapsed = (now - last) / 1000;
+        last = now;
+        const { width, height } = canvas;
+        ctx.clearRect(0, 0, width, height);
+
+        const barWidth = (width - 2 * (levels.length - 1)) / levels.length;
+        const gradient = ctx.createLinearGradient(0, height, 0, 0);
+        gradient.addColorStop(0, '#22c55e');
+        gradient.addColorStop(toFraction(-12), '#22c55e');
+        gradient.addColorStop(toFraction(-6), '#eab308');
+        gradient.addColorStop(1, '#ef4444');
+
+        levels.forEach((level, channel) => {
+            let db = -Infinity;
+            if (analysers) {
+                analysers[channel].getFloatTimeDomainData(samples);
+                db = toDb(samples.reduce((max, s) => Math.max(max, Math.abs(s)), 0));
+            }
+            level.db = Math.max(db, level.db - LEVEL_FALLOFF * elapsed);
+            if (db >= level.peak) {
+                level.peak = db;
+                level.peakTime = now;
+            } else if (now - level.peakTime > PEAK_HOLD_SECONDS * 1000) {
+                level.peak -= LEVEL_FALLOFF * elapsed;
+            }
+
+            const x = channel * (barWidth + 2);
+            const levelHeight = toFraction(level.db) * height;
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.08)';
+            ctx.fillRect(x, 0, barWidth, height);
+            ctx.fillStyle = gradient;
+            ctx.fillRect(x, height - levelHeight, barWidth, levelHeight);
+            if (level.peak > FLOOR_DB) {
+                ctx.fillStyle = level.peak >= 0 ? '#ef4444' : '#fafafa';
+                ctx.fillRect(x, height - toFraction(level.peak) * height, barWidth, 1);
+            }
+        });
+        frame = requestAnimationFrame(render);
+    };
+
+    frame = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(frame);
+  }, [analysers]);
+
+  return (
+    <canvas
+        ref={canvasRef}
+        width={10}
+        height={120}
+        className="w-2.5 h-28 rounded-sm bg-black/50"
+        title="Master Level"
+    />
+  );
+};
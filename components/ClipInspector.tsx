@@ -0,0 +1,531 @@
+import React, { useRef } from 'react';
+import { TimelineClip, MediaAsset, MediaType, ColorLut, FilterPreset, CropRect, AnimatableProperty, EasingType, Keyframe, TextAnimation, TextAnimationPreset } from '../types';
+import {
+  DEFAULT_BEZIER,
+  NumericProperty,
+  getAnimatedValues,
+  getClipTransform,
+  getKeyframeAt,
+  hasKeyframes,
+  setKeyframe,
+  removeKeyframe,
+  setKeyframeEasing,
+  applyValuesAt,
+} from '../services/keyframes';
+import { DEFAULT_TEXT_ANIMATION_DURATION, TEXT_ANIMATION_LABELS, getTextStyle } from '../services/textRenderer';
+import { MAX_CLIP_VOLUME, hasAudio } from '../services/audioMixer';
+import { getClipSpeed, setClipSpeed } from '../services/clipSpeed';
+import { DEFAULT_CHROMA_KEY, FILTER_LABELS } from '../services/colorEffects';
+import { Button } from './Button';
+import { RotateCcw, Lock, Diamond, Pencil, Pipette } from 'lucide-react';
+
+interface ClipInspectorProps {
+  clip: TimelineClip;
+  asset: MediaAsset;
+  currentTime: number;
+  locked: boolean;
+  frameRate: number;
+  luts: ColorLut[];
+  isOverlay: boolean; // On a video track above the base one, where a chroma key has something to reveal
+  pickingKeyColor: boolean;
+  onChange: (clip: TimelineClip) => void;
+  onImportLut: (file: File) => void;
+  onPickKeyColor: () => void; // Toggles picking the key color from the preview
+  onAssetChange: (updates: Partial<MediaAsset>) => void;
+  onEditText: () => void;
+  // Bracket a slider drag so it becomes a single undo step
+  onEditStart: () => void;
+  onEditEnd: () => void;
+}
+
+interface KeyframeControl {
+  keyed: boolean; // The property has keys somewhere
+  current?: Keyframe; // The key under the playhead
+  canKey: boolean; // Playhead is inside the clip
+  onToggle: () => void;
+  onEasing: (easing: EasingType, bezier?: [number, number, number, number]) => void;
+}
+
+// Pixels at the reference preview width
+const MAX_BLUR = 20;
+// LUT menu entry that opens the file picker instead of selecting a table
+const IMPORT_LUT = 'import';
+
+const SPEED_PRESETS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+
+const EASING_LABELS: Record<EasingType, string> = {
+  [EasingType.LINEAR]: 'Linear',
+  [EasingType.EASE]: 'Ease',
+  [EasingType.BEZIER]: 'Bezier',
+};
+
+// Diamond toggles a key at the playhead; easing controls appear while standing on one
+const KeyframeButton: React.FC<{ control: KeyframeControl; disabled: boolean }> = ({ control, disabled }) => (
+  <button
+    className={`p-0.5 rounded hover:bg-zinc-700 disabled:opacity-30 ${control.current ? 'text-yellow-400' : control.keyed ? 'text-yellow-600' : 'text-zinc-600'}`}
+    disabled={disabled || !control.canKey}
+    onClick={(e) => {
+        e.preventDefault();
+        control.onToggle();
+    }}
+    title={control.current ? 'Remove Keyframe' : 'Add Keyframe'}
+  >
+    <Diamond size={10} fill={control.current ? 'currentColor' : 'none'} />
+  </button>
+);
+
+const EasingEditor: React.FC<{ keyframe: Keyframe; disabled: boolean; onEasing: KeyframeControl['onEasing'] }> = ({ keyframe, disabled, onEasing }) => {
+  const bezier = keyframe.bezier ?? DEFAULT_BEZIER;
+  return (
+    <div className="flex items-center gap-1 mt-1">
+        <select
+            value={keyframe.easing}
+            disabled={disabled}
+            className="bg-zinc-950 border border-zinc-700 rounded px-1 py-0.5 text-[10px] text-white focus:outline-none"
+            onChange={(e) => onEasing(e.target.value as EasingType)}
+        >
+            {Object.values(EasingType).map(easing => (
+                <option key={easing} value={easing}>{EASING_LABELS[easing]}</option>
+            ))}
+        </select>
+        {keyframe.easing === EasingType.BEZIER && bezier.map((point, i) => (
+            <input
+                key={i}
+                type="number"
+                step={0.05}
+                min={i % 2 === 0 ? 0 : undefined}
+                max={i % 2 === 0 ? 1 : undefined}
+                value={point}
+                disabled={disabled}
+                className="w-10 bg-zinc-950 border border-zinc-700 rounded px-1 py-0.5 text-[10px] text-white focus:outline-none"
+                onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (isNaN(value)) return;
+                    const next = [...bezier] as [number, number, number, number];
+                    // x control points must stay inside 0..1 for the curve to be a function of time
+                    next[i] = i % 2 === 0 ? Math.min(Math.max(value, 0), 1) : value;
+                    onEasing(EasingType.BEZIER, next);
+                }}
+            />
+        ))}
+    </div>
+  );
+};
+
+interface FieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  suffix: string;
+  disabled: boolean;
+  keyframe?: KeyframeControl;
+  onChange: (value: number) => void;
+  onEditStart: () => void;
+  onEditEnd: () => void;
+}
+
+// Slider for dragging plus a number box for exact values
+const Field: React.FC<FieldProps> = ({ label, value, min, max, step, suffix, disabled, keyframe, onChange, onEditStart, onEditEnd }) => (
+  <div className="text-[11px] text-zinc-400 mb-3">
+    <div className="flex items-center justify-between mb-1">
+        <span className="flex items-center gap-1">
+            {keyframe && <KeyframeButton control={keyframe} disabled={disabled} />}
+            {label}
+        </span>
+        <span className="flex items-center gap-1">
+            <input
+                type="number"
+                value={Math.round(value * 10) / 10}
+                step={step}
+                disabled={disabled}
+                className="w-16 bg-zinc-950 border border-zinc-700 rounded px-1 py-0.5 text-right text-white focus:outline-none disabled:opacity-50"
+                onChange={(e) => {
+                    const next = parseFloat(e.target.value);
+                    if (!isNaN(next)) onChange(next);
+                }}
+            />
+            <span className="w-3 text-zinc-500">{suffix}</span>
+        </span>
+    </div>
+    <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={disabled}
+        className="w-full accent-yellow-500"
+        onPointerDown={onEditStart}
+        onPointerUp={onEditEnd}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+    />
+    {keyframe?.current && <EasingEditor keyframe={keyframe.current} disabled={disabled} onEasing={keyframe.onEasing} />}
+  </div>
+);
+
+const AnimationField: React.FC<{
+  label: string;
+  animation?: TextAnimation;
+  disabled: boolean;
+  onChange: (animation: TextAnimation | undefined) => void;
+}> = ({ label, animation, disabled, onChange }) => (
+  <div className="flex items-center justify-between gap-2 text-[11px] text-zinc-400 mb-3">
+    <span className="w-8">{label}</span>
+    <select
+        value={animation?.preset ?? ''}
+        disabled={disabled}
+        className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-1 py-0.5 text-white focus:outline-none"
+        onChange={(e) => onChange(e.target.value
+            ? { preset: e.target.value as TextAnimationPreset, duration: animation?.duration ?? DEFAULT_TEXT_ANIMATION_DURATION }
+            : undefined)}
+    >
+        <option value="">None</option>
+        {Object.values(TextAnimationPreset).map(preset => (
+            <option key={preset} value={preset}>{TEXT_ANIMATION_LABELS[preset]}</option>
+        ))}
+    </select>
+    <input
+        type="number"
+        min={0.1}
+        step={0.1}
+        value={animation?.duration ?? DEFAULT_TEXT_ANIMATION_DURATION}
+        disabled={disabled || !animation}
+        className="w-14 bg-zinc-950 border border-zinc-700 rounded px-1 py-0.5 text-right text-white focus:outline-none disabled:opacity-50"
+        onChange={(e) => {
+            const duration = parseFloat(e.target.value);
+            if (animation && duration > 0) onChange({ ...animation, duration });
+        }}
+        title="Duration (s)"
+    />
+  </div>
+);
+
+export const ClipInspector: React.FC<ClipInspectorProps> = ({
+  clip,
+  asset,
+  currentTime,
+  locked,
+  frameRate,
+  luts,
+  isOverlay,
+  pickingKeyColor,
+  onChange,
+  onImportLut,
+  onPickKeyColor,
+  onAssetChange,
+  onEditText,
+  onEditStart,
+  onEditEnd
+}) => {
+  const lutInputRef = useRef<HTMLInputElement>(null);
+  const transform = getClipTransform(clip);
+  const animated = getAnimatedValues(clip, asset, currentTime);
+  const localTime = currentTime - clip.startOffset;
+  const isVisual = asset.type !== MediaType.AUDIO;
+  const canCrop = asset.type === MediaType.VIDEO || asset.type === MediaType.IMAGE;
+  const hasSound = hasAudio(asset.type);
+  const canGrade = asset.type === MediaType.VIDEO || asset.type === MediaType.IMAGE;
+  const canRetime = asset.type === MediaType.VIDEO || asset.type === MediaType.AUDIO;
+  const speed = getClipSpeed(clip);
+
+  const keyframeControl = (property: AnimatableProperty, value: number | string): KeyframeControl => {
+    const current = getKeyframeAt(clip, property, localTime);
+    return {
+        keyed: hasKeyframes(clip, property),
+        current,
+        canKey: localTime >= 0 && localTime <= clip.duration,
+        onToggle: () => onChange(current ? removeKeyframe(clip, property, localTime) : setKeyframe(clip, property, localTime, value)),
+        onEasing: (easing, bezier) => onChange(setKeyframeEasing(clip, property, localTime, easing, bezier)),
+    };
+  };
+
+  const numberField = (property: NumericProperty, label: string, value: number, toValue: (display: number) => number, range: {
+    display: number; min: number; max: number; step: number; suffix: string;
+  }) => (
+    <Field
+        label={label}
+        value={range.display}
+        min={range.min}
+        max={range.max}
+        step={range.step}
+        suffix={range.suffix}
+        disabled={locked}
+        keyframe={keyframeControl(property, value)}
+        onChange={v => onChange(applyValuesAt(clip, currentTime, { [property]: toValue(v) }))}
+        onEditStart={onEditStart}
+        onEditEnd={onEditEnd}
+    />
+  );
+
+  const updateCrop = (edge: keyof CropRect, percent: number) =>
+    onChange(applyValuesAt(clip, currentTime, { crop: { ...transform.crop, [edge]: Math.min(Math.max(percent, 0), 95) / 100 } }));
+
+  const { x, y, scale, rotation, opacity } = animated.transform;
+  const { brightness, contrast, saturation, temperature, vignette, blur } = animated.adjustments;
+  const percent = { min: -100, max: 100, step: 1, suffix: '%' };
+  const fromPercent = (v: number) => Math.min(Math.max(v, -100), 100) / 100;
+  const textColorControl = keyframeControl('textColor', animated.textColor);
+
+  return (
+    <div className="w-64 bg-zinc-900 border-l border-zinc-800 flex flex-col h-full">
+      <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+        <div className="min-w-0">
+            <h2 className="text-sm font-bold text-zinc-100 uppercase tracking-wider">Inspector</h2>
+            <p className="text-xs text-zinc-500 truncate">{asset.name}</p>
+        </div>
+        {locked ? (
+            <Lock size={14} className="text-zinc-500" />
+        ) : isVisual && (
+            <Button
+                variant="ghost"
+                size="sm"
+                className="px-2"
+                onClick={() => onChange({ ...clip, transform: undefined, keyframes: undefined })}
+                title="Reset Transform and Keyframes"
+            >
+                <RotateCcw size={14} />
+            </Button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {isVisual && (
+            <>
+                <h3 className="text-[10px] font-bold text-zinc-500 mb-2 uppercase tracking-wider">Transform</h3>
+                {numberField('x', 'X', x, v => v / 100, { display: x * 100, min: -100, max: 100, step: 0.5, suffix: '%' })}
+                {numberField('y', 'Y', y, v => v / 100, { display: y * 100, min: -100, max: 100, step: 0.5, suffix: '%' })}
+                {numberField('scale', 'Scale', scale, v => Math.max(v, 5) / 100, { display: scale * 100, min: 5, max: 400, step: 1, suffix: '%' })}
+                {numberField('rotation', 'Rotation', rotation, v => v, { display: rotation, min: -180, max: 180, step: 1, suffix: '°' })}
+                {numberField('opacity', 'Opacity', opacity, v => Math.min(Math.max(v, 0), 100) / 100, { display: opacity * 100, min: 0, max: 100, step: 1, suffix: '%' })}
+            </>
+        )}
+
+        {canCrop && (
+            <>
+                <h3 className="text-[10px] font-bold text-zinc-500 mt-4 mb-2 uppercase tracking-wider">Crop</h3>
+                {(['left', 'top', 'right', 'bottom'] as const).map(edge => (
+                    <Field
+                        key={edge}
+                        label={edge[0].toUpperCase() + edge.slice(1)}
+                        value={transform.crop[edge] * 100}
+                        min={0}
+                        max={95}
+                        step={1}
+                        suffix="%"
+                        disabled={locked}
+                        onChange={v => updateCrop(edge, v)}
+                        onEditStart={onEditStart}
+                        onEditEnd={onEditEnd}
+                    />
+                ))}
+            </>
+        )}
+
+        {canGrade && (
+            <>
+                <h3 className="text-[10px] font-bold text-zinc-500 mt-4 mb-2 uppercase tracking-wider">Color</h3>
+                <div className="grid grid-cols-2 gap-2 text-[11px] text-zinc-400 mb-3">
+                    <label>
+                        Filter
+                        <select
+                            value={clip.filter ?? ''}
+                            disabled={locked}
+                            className="mt-1 w-full bg-zinc-950 border border-zinc-700 rounded px-1 py-0.5 text-white focus:outline-none disabled:opacity-50"
+                            onChange={(e) => onChange({ ...clip, filter: (e.target.value || undefined) as FilterPreset | undefined })}
+                        >
+                            <option value="">None</option>
+                            {Object.values(FilterPreset).map(filter => (
+                                <option key={filter} value={filter}>{FILTER_LABELS[filter]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label>
+                        LUT
+                        <select
+                            value={clip.lutId ?? ''}
+                            disabled={locked}
+                            className="mt-1 w-full bg-zinc-950 border border-zinc-700 rounded px-1 py-0.5 text-white focus:outline-none disabled:opacity-50"
+                            onChange={(e) => {
+                                if (e.target.value === IMPORT_LUT) lutInputRef.current?.click();
+                                else onChange({ ...clip, lutId: e.target.value || undefined });
+                            }}
+                        >
+                            <option value="">None</option>
+                            {luts.map(lut => (
+                                <option key={lut.id} value={lut.id}>{lut.name}</option>
+                            ))}
+                            <option value={IMPORT_LUT}>Import .cube…</option>
+                        </select>
+                        <input
+                            ref={lutInputRef}
+                            type="file"
+                            accept=".cube"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) onImportLut(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </label>
+                </div>
+                {numberField('brightness', 'Brightness', brightness, fromPercent, { display: brightness * 100, ...percent })}
+                {numberField('contrast', 'Contrast', contrast, fromPercent, { display: contrast * 100, ...percent })}
+                {numberField('saturation', 'Saturation', saturation, fromPercent, { display: saturation * 100, ...percent })}
+                {numberField('temperature', 'Temperature', temperature, fromPercent, { display: temperature * 100, ...percent })}
+                {numberField('vignette', 'Vignette', vignette, v => Math.min(Math.max(v, 0), 100) / 100, { display: vignette * 100, min: 0, max: 100, step: 1, suffix: '%' })}
+                {numberField('blur', 'Blur', blur, v => Math.min(Math.max(v, 0), MAX_BLUR), { display: blur, min: 0, max: MAX_BLUR, step: 0.5, suffix: '' })}
+            </>
+        )}
+
+        {canGrade && isOverlay && (
+            <>
+                <div className="flex items-center justify-between mt-4 mb-2">
+                    <h3 className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">Chroma Key</h3>
+                    <input
+                        type="checkbox"
+                        checked={!!clip.chromaKey}
+                        disabled={locked}
+                        className="accent-yellow-500"
+                        onChange={(e) => onChange({ ...clip, chromaKey: e.target.checked ? DEFAULT_CHROMA_KEY : undefined })}
+                        title="Remove a background color"
+                    />
+                </div>
+                {clip.chromaKey && (
+                    <>
+                        <div className="flex items-center justify-between text-[11px] text-zinc-400 mb-3">
+                            <span>Key Color</span>
+                            <span className="flex items-center gap-1">
+                                <input
+                                    type="color"
+                                    value={clip.chromaKey.color}
+                                    disabled={locked}
+                                    className="w-10 h-6 bg-transparent border border-zinc-700 rounded cursor-pointer disabled:opacity-50"
+                                    onChange={(e) => onChange({ ...clip, chromaKey: { ...clip.chromaKey!, color: e.target.value } })}
+                                />
+                                <button
+                                    className={`p-1 rounded disabled:opacity-30 ${pickingKeyColor ? 'bg-yellow-500 text-black' : 'text-zinc-400 hover:bg-zinc-700'}`}
+                                    disabled={locked}
+                                    onClick={onPickKeyColor}
+                                    title="Pick from Preview"
+                                >
+                                    <Pipette size={12} />
+                                </button>
+                            </span>
+                        </div>
+                        {(['tolerance', 'softness', 'spill'] as const).map(setting => (
+                            <Field
+                                key={setting}
+                                label={setting === 'spill' ? 'Spill Suppression' : setting[0].toUpperCase() + setting.slice(1)}
+                                value={clip.chromaKey![setting] * 100}
+                                min={0}
+                                max={100}
+                                step={1}
+                                suffix="%"
+                                disabled={locked}
+                                onChange={v => onChange({ ...clip, chromaKey: { ...clip.chromaKey!, [setting]: Math.min(Math.max(v, 0), 100) / 100 } })}
+                                onEditStart={onEditStart}
+                                onEditEnd={onEditEnd}
+                            />
+                        ))}
+                    </>
+                )}
+            </>
+        )}
+
+        {canRetime && (
+            <>
+                <h3 className="text-[10px] font-bold text-zinc-500 mt-4 mb-2 uppercase tracking-wider">Speed</h3>
+                <div className="flex items-center justify-between gap-2 text-[11px] text-zinc-400 mb-3">
+                    <select
+                        value={speed}
+                        disabled={locked}
+                        className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-1 py-0.5 text-white focus:outline-none disabled:opacity-50"
+                        onChange={(e) => onChange(setClipSpeed(clip, Number(e.target.value), frameRate))}
+                        title="Playback speed; the clip's length changes to keep the same media"
+                    >
+                        {SPEED_PRESETS.map(preset => (
+                            <option key={preset} value={preset}>{preset}x</option>
+                        ))}
+                        {!SPEED_PRESETS.includes(speed) && <option value={speed}>{speed}x</option>}
+                    </select>
+                    <label className="flex items-center gap-1">
+                        <input
+                            type="checkbox"
+                            checked={!!clip.reversed}
+                            disabled={locked}
+                            className="accent-yellow-500"
+                            onChange={(e) => onChange({ ...clip, reversed: e.target.checked || undefined })}
+                        />
+                        Reverse
+                    </label>
+                </div>
+            </>
+        )}
+
+        {hasSound && (
+            <>
+                <h3 className="text-[10px] font-bold text-zinc-500 mt-4 mb-2 uppercase tracking-wider">Audio</h3>
+                {numberField('volume', 'Volume', animated.volume, v => Math.min(Math.max(v, 0), MAX_CLIP_VOLUME * 100) / 100, { display: animated.volume * 100, min: 0, max: MAX_CLIP_VOLUME * 100, step: 1, suffix: '%' })}
+                {(['fadeIn', 'fadeOut'] as const).map(fade => (
+                    <Field
+                        key={fade}
+                        label={fade === 'fadeIn' ? 'Fade In' : 'Fade Out'}
+                        value={clip[fade] ?? 0}
+                        min={0}
+                        max={clip.duration}
+                        step={0.05}
+                        suffix="s"
+                        disabled={locked}
+                        onChange={v => {
+                            // The two fades share the clip's length
+                            const other = (fade === 'fadeIn' ? clip.fadeOut : clip.fadeIn) ?? 0;
+                            onChange({ ...clip, [fade]: Math.min(Math.max(v, 0), clip.duration - other) });
+                        }}
+                        onEditStart={onEditStart}
+                        onEditEnd={onEditEnd}
+                    />
+                ))}
+            </>
+        )}
+
+        {asset.type === MediaType.TEXT && (
+            <>
+                <h3 className="text-[10px] font-bold text-zinc-500 mt-4 mb-2 uppercase tracking-wider">Text</h3>
+                <div className="text-[11px] text-zinc-400 mb-3">
+                    <div className="flex items-center justify-between">
+                        <span className="flex items-center gap-1">
+                            <KeyframeButton control={textColorControl} disabled={locked} />
+                            Color
+                        </span>
+                        <input
+                            type="color"
+                            value={animated.textColor}
+                            disabled={locked}
+                            className="w-10 h-6 bg-transparent border border-zinc-700 rounded cursor-pointer disabled:opacity-50"
+                            onChange={(e) => {
+                                // Keyed colors change the key at the playhead; otherwise the text's own color
+                                if (!textColorControl.keyed) onAssetChange({ textStyle: { ...getTextStyle(asset.textStyle), color: e.target.value } });
+                                else if (textColorControl.canKey) onChange(setKeyframe(clip, 'textColor', localTime, e.target.value));
+                            }}
+                        />
+                    </div>
+                    {textColorControl.current && (
+                        <EasingEditor keyframe={textColorControl.current} disabled={locked} onEasing={textColorControl.onEasing} />
+                    )}
+                </div>
+                <Button variant="secondary" size="sm" className="w-full mb-4" onClick={onEditText}>
+                    <Pencil size={12} className="mr-2" /> Edit Text & Style
+                </Button>
+
+                <h3 className="text-[10px] font-bold text-zinc-500 mb-2 uppercase tracking-wider">Animation</h3>
+                <AnimationField label="In" animation={clip.textIn} disabled={locked} onChange={textIn => onChange({ ...clip, textIn })} />
+                <AnimationField label="Out" animation={clip.textOut} disabled={locked} onChange={textOut => onChange({ ...clip, textOut })} />
+            </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TimelineClip, MediaAsset, MediaType } from '../types';
+import { Filmstrip, Waveform, getFilmstrip, getWaveform } from '../services/mediaPreviewService';
+import { getClipMediaTime } from '../services/clipSpeed';
+
+interface ClipMediaPreviewProps {
+  clip: TimelineClip;
+  asset: MediaAsset;
+  pixelsPerSecond: number;
+  height: number;
+}
+
+// Very long clips stretch a capped canvas rather than allocate one per pixel
+const MAX_WAVEFORM_CANVAS_WIDTH = 4096;
+
+const WaveformView: React.FC<{ clip: TimelineClip; waveform: Waveform; width: number; height: number }> = ({ clip, waveform, width, height }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const canvasWidth = Math.max(1, Math.min(Math.round(width), MAX_WAVEFORM_CANVAS_WIDTH));
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvasWidth, height);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+
+    // Each column shows the loudest peak in the slice of media it covers, mirrored around the middle
+    const { peaks, peaksPerSecond } = waveform;
+    const secondsPerColumn = clip.duration / canvasWidth;
+    for (let x = 0; x < canvasWidth; x++) {
+      // Reversed clips read their columns right to left
+      const left = getClipMediaTime(clip, x * secondsPerColumn);
+      const right = getClipMediaTime(clip, (x + 1) * secondsPerColumn);
+      const start = Math.floor(Math.min(left, right) * peaksPerSecond);
+      const end = Math.max(start + 1, Math.floor(Math.max(left, right) * peaksPerSecond));
+      let peak = 0;
+      for (let i = Math.max(0, start); i < Math.min(end, peaks.length); i++) peak = Math.max(peak, peaks[i]);
+      const barHeight = Math.max(1, peak * height);
+      ctx.fillRect(x, (height - barHeight) / 2, 1, barHeight);
+    }
+  }, [waveform, clip.mediaStart, clip.duration, clip.speed, clip.reversed, canvasWidth, height]);
+
+  return <canvas ref={canvasRef} width={canvasWidth} height={height} className="absolute inset-0 w-full h-full" />;
+};
+
+const FilmstripView: React.FC<{ clip: TimelineClip; filmstrip: Filmstrip; pixelsPerSecond: number; width: number; height: number }> = ({
+  clip, filmstrip, pixelsPerSecond, width, height
+}) => {
+  const tileWidth = filmstrip.frameWidth * (height / filmstrip.frameHeight);
+  const tiles = Math.ceil(width / tileWidth);
+
+  return (
+    <div className="absolute inset-0 flex opacity-60">
+        {Array.from({ length: tiles }, (_, i) => {
+            // The frame nearest the media time under the middle of the tile
+            const mediaTime = getClipMediaTime(clip, ((i + 0.5) * tileWidth) / pixelsPerSecond);
+            const frame = Math.min(Math.max(Math.floor(mediaTime / filmstrip.interval), 0), filmstrip.count - 1);
+            return (
+                <div
+                    key={i}
+                    className="flex-shrink-0 h-full"
+                    style={{
+                        width: tileWidth,
+                        backgroundImage: `url(${filmstrip.url})`,
+                        backgroundSize: `${filmstrip.count * tileWidth}px ${height}px`,
+                        backgroundPosition: `${-frame * tileWidth}px 0`,
+                    }}
+                />
+            );
+        })}
+    </div>
+  );
+};
+
+// Waveform for audio clips and a row of frames for video clips, showing exactly the trimmed media range
+export const ClipMediaPreview: React.FC<ClipMediaPreviewProps> = ({ clip, asset, pixelsPerSecond, height }) => {
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
+  const [filmstrip, setFilmstrip] = useState<Filmstrip | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (asset.type === MediaType.AUDIO) {
+        getWaveform(asset).then(result => !cancelled && setWaveform(result)).catch(() => {});
+    } else if (asset.type === MediaType.VIDEO) {
+        getFilmstrip(asset).then(result => !cancelled && setFilmstrip(result)).catch(() => {});
+    }
+    return () => { cancelled = true; };
+  }, [asset.id, asset.type]);
+
+  const width = clip.duration * pixelsPerSecond;
+  if (waveform) return <WaveformView clip={clip} waveform={waveform} width={width} height={height} />;
+  if (filmstrip) return <FilmstripView clip={clip} filmstrip={filmstrip} pixelsPerSecond={pixelsPerSecond} width={width} height={height} />;
+  return null;
+};
@@ -0,0 +1,973 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Project, ProjectSettings, MediaAsset, MediaType, TimelineClip, Track, TrackKind, Transition, ClipTransform, SubtitleFormat } from '../types';
+import { AssetLibrary } from './AssetLibrary';
+import { Timeline } from './Timeline';
+import { Button } from './Button';
+import { ExportDialog } from './ExportDialog';
+import { PreviewPlayer } from './PreviewPlayer';
+import { ClipInspector } from './ClipInspector';
+import { TextEditorDialog } from './TextEditorDialog';
+import { ShortcutsDialog } from './ShortcutsDialog';
+import { ProjectSettingsDialog } from './ProjectSettingsDialog';
+import { SnapshotsDialog } from './SnapshotsDialog';
+import { TimecodeInput } from './TimecodeInput';
+import { Play, Pause, SkipBack, SkipForward, Save, Scissors, Trash2, Loader2, HardDrive, ChevronLeft, Undo2, Redo2, Download, ArrowLeftToLine, Keyboard, Copy, ClipboardPaste, Settings2, Snowflake, Package, History } from 'lucide-react';
+import { saveProject, saveSnapshot, loadSnapshot, releaseProjectMedia, getStorageUsage, formatBytes, StorageUsage } from '../services/storageService';
+import { useProjectHistory } from '../hooks/useProjectHistory';
+import { useAudioMixer } from '../hooks/useAudioMixer';
+import { useShortcutBindings, useShortcuts } from '../hooks/useShortcuts';
+import { ShortcutAction, getShortcutHint } from '../services/shortcutService';
+import { EditMode, getEditPoints, placeClip, placeClips, rippleDelete, shiftClips, splitClipAt } from '../services/timelineOps';
+import { applyValuesAt, getAnimatedValues } from '../services/keyframes';
+import { getActiveVisualClips } from '../services/compositor';
+import { captureVideoFrame, createThumbnail } from '../services/mediaService';
+import { parseCubeLut } from '../services/lutService';
+import { downloadProjectBundle } from '../services/projectBundle';
+import { floorToFrame, formatTimecode, getPlaybackStop, snapClipToFrames, snapToFrame } from '../services/timecode';
+import {
+  createSubtitleClips,
+  getSubtitleFormat,
+  getTrackSubtitles,
+  parseSubtitles,
+  serializeSubtitles,
+} from '../services/subtitleService';
+import {
+  createTrack,
+  getBaseVideoTrack,
+  getNextTrackName,
+  getOrderedTracks,
+  getTrackKindForMedia,
+  isTrackCompatible,
+  normalizeTrackOrder,
+  snapTimelineToFrames,
+} from '../services/projectService';
+
+const DEFAULT_CUE_DURATION = 2;
+const FREEZE_FRAME_DURATION = 2;
+// Edits are saved once they have paused for this long
+const AUTOSAVE_DELAY = 1500;
+// Each J/L press doubles the shuttle speed up to this
+const MAX_SHUTTLE_SPEED = 8;
+
+interface EditorProps {
+  initialProject: Project;
+  onClose: (project: Project) => void;
+}
+
+export const Editor: React.FC<EditorProps> = ({ initialProject, onClose }) => {
+  // --- State ---
+  const { project, commit, beginTransaction, endTransaction, undo, redo, undoLabel, redoLabel } = useProjectHistory(initialProject);
+  
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [selectedClipIds, setSelectedClipIds] = useState<string[]>([]);
+  // Copied clips, pasted at the playhead
+  const [clipboard, setClipboard] = useState<TimelineClip[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  // The state last written to storage; anything else is unsaved
+  const [savedProject, setSavedProject] = useState(initialProject);
+  // The state whose save failed, with why; autosave waits for the next edit before trying again
+  const [failedSave, setFailedSave] = useState<{ project: Project; error: string } | null>(null);
+  const [isBundling, setIsBundling] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [editMode, setEditMode] = useState<EditMode>(EditMode.OVERWRITE);
+  const [editingTextAssetId, setEditingTextAssetId] = useState<string | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  // The clip whose chroma key color is being picked from the preview
+  const [keyColorClipId, setKeyColorClipId] = useState<string | null>(null);
+  
+  // --- Refs ---
+  // Latest playhead for the playback loop, which restarts only when playback does
+  const currentTimeRef = useRef(0);
+  currentTimeRef.current = currentTime;
+
+  const mixer = useAudioMixer();
+
+  // --- Computed ---
+  const { frameRate } = project.settings;
+  const frameDuration = 1 / frameRate;
+  const totalDuration = project.timeline.reduce((max, clip) => 
+    Math.max(max, clip.startOffset + clip.duration), 0);
+
+  // The inspector and on-canvas handles work on a single clip
+  const selectedClipId = selectedClipIds.length === 1 ? selectedClipIds[0] : null;
+  const selectedClip = project.timeline.find(c => c.id === selectedClipId);
+  const selectedAsset = selectedClip && project.assets.find(a => a.id === selectedClip.assetId);
+  const editingTextAsset = project.assets.find(a => a.id === editingTextAssetId);
+
+  // --- Persistence ---
+
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage).catch(() => setStorageUsage(null));
+  };
+
+  useEffect(() => {
+    refreshStorageUsage();
+  }, []);
+
+  const hasUnsavedChanges = project !== savedProject;
+  const saveFailed = failedSave?.project === project;
+
+  // Autosave reports failures only through the header indicator; the Save button also alerts
+  const handleSave = async (alertOnError = true): Promise<boolean> => {
+    const target = project;
+    setIsSaving(true);
+    try {
+        await saveProject(target);
+        setSavedProject(target);
+        setFailedSave(null);
+        return true;
+    } catch (e) {
+        const error = e instanceof Error ? e.message : "Failed to save project.";
+        setFailedSave({ project: target, error });
+        if (alertOnError) alert(error);
+        return false;
+    } finally {
+        setIsSaving(false);
+        refreshStorageUsage();
+    }
+  };
+
+  useEffect(() => {
+    if (!hasUnsavedChanges || isSaving || saveFailed) return;
+    const timer = setTimeout(() => handleSave(false), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [project, savedProject, isSaving, saveFailed]);
+
+  // A tab can be closed before the autosave delay runs out, so save as soon as the page is hidden
+  const pendingSaveRef = useRef<Project | null>(null);
+  pendingSaveRef.current = hasUnsavedChanges ? project : null;
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+        const pending = pendingSaveRef.current;
+        if (document.visibilityState !== 'hidden' || !pending) return;
+        saveProject(pending).then(() => setSavedProject(pending)).catch(e => console.error("Failed to save hidden project", e));
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Save on the way out so returning to the project browser never loses work
+  const handleClose = async () => {
+    if (!hasUnsavedChanges || await handleSave()) onClose(project);
+  };
+
+  // --- Snapshots ---
+
+  const handleTakeSnapshot = async (name: string) => {
+    await saveSnapshot(project, name);
+    refreshStorageUsage();
+  };
+
+  // Undoable like any edit; the project keeps its identity and name. Assets that are already loaded
+  // keep their object URLs, and the copies the snapshot load created for them are released.
+  const handleRestoreSnapshot = async (snapshotId: string) => {
+    const restored = await loadSnapshot(snapshotId);
+    const loaded = new Map<string, MediaAsset>(project.assets.map(asset => [asset.id, asset]));
+    releaseProjectMedia({ ...restored, assets: restored.assets.filter(asset => loaded.has(asset.id)) });
+    const assets = restored.assets.map(asset => {
+        const current = loaded.get(asset.id);
+        return current ? { ...asset, src: current.src, thumbnail: current.thumbnail } : asset;
+    });
+    commit('Restore Snapshot', prev => ({ ...restored, assets, id: prev.id, name: prev.name, lastModified: prev.lastModified }));
+    setSelectedClipIds([]);
+    setShowSnapshots(false);
+  };
+
+  // Bundles the project as it is on screen, unsaved edits included
+  const handleExportBundle = async () => {
+    setIsBundling(true);
+    try {
+        await downloadProjectBundle(project);
+    } catch (e) {
+        alert(e instanceof Error ? e.message : "Failed to export project.");
+    } finally {
+        setIsBundling(false);
+    }
+  };
+
+  // --- Handlers ---
+
+  const handleAddAsset = (asset: MediaAsset) => {
+    commit('Import Media', prev => ({
+      ...prev,
+      assets: [...prev.assets, asset]
+    }));
+  };
+
+  const isClipLocked = (clipId: string) => {
+    const clip = project.timeline.find(c => c.id === clipId);
+    return !!clip && !!project.tracks.find(t => t.id === clip.trackId)?.locked;
+  };
+
+  const handleAddToTimeline = (assetId: string) => {
+    const asset = project.assets.find(a => a.id === assetId);
+    if (!asset) return;
+
+    // Visual media goes to the base (bottom-most) video track; everything else to the first compatible track
+    const kind = getTrackKindForMedia(asset.type);
+    const candidates = getOrderedTracks(project).filter(t => isTrackCompatible(t, asset.type) && !t.locked);
+    const existingTrack = kind === TrackKind.VIDEO ? candidates[candidates.length - 1] : candidates[0];
+    const track = existingTrack ?? createTrack(kind, getNextTrackName(project, kind), project.tracks.length);
+
+    // Find insertion point (end of specific track)
+    const startOffset = project.timeline
+        .filter(c => c.trackId === track.id)
+        .reduce((max, c) => Math.max(max, c.startOffset + c.duration), 0);
+
+    const newClip: TimelineClip = {
+        id: crypto.randomUUID(),
+        assetId: asset.id,
+        startOffset: startOffset,
+        mediaStart: 0,
+        // Media rarely ends on a frame boundary; the clip stops at the last whole frame
+        duration: Math.max(floorToFrame(asset.duration, frameRate), frameDuration),
+        trackId: track.id
+    };
+
+    commit('Add Clip', prev => ({
+        ...prev,
+        tracks: existingTrack ? prev.tracks : [...prev.tracks, track],
+        timeline: [...prev.timeline, newClip]
+    }));
+  };
+
+  const handleDeleteClip = (clipId: string) => {
+    if (isClipLocked(clipId)) return;
+    commit('Delete Clip', prev => {
+        const newTimeline = prev.timeline.filter(c => c.id !== clipId);
+        return { ...prev, timeline: newTimeline };
+    });
+    setSelectedClipIds(ids => ids.filter(id => id !== clipId));
+  };
+
+  // --- Selection ---
+
+  // Selected clips that still exist and aren't on a locked track
+  const getEditableSelection = () =>
+    selectedClipIds.filter(id => project.timeline.some(c => c.id === id) && !isClipLocked(id));
+
+  const handleDeleteSelection = () => {
+    const ids = getEditableSelection();
+    if (ids.length === 0) return;
+    commit(ids.length > 1 ? 'Delete Clips' : 'Delete Clip', prev => ({
+        ...prev,
+        timeline: prev.timeline.filter(c => !ids.includes(c.id))
+    }));
+    setSelectedClipIds(selectedClipIds.filter(id => !ids.includes(id)));
+  };
+
+  const handleRippleDeleteSelection = () => {
+    const ids = getEditableSelection();
+    if (ids.length === 0) return;
+    commit('Ripple Delete', prev => ({ ...prev, timeline: ids.reduce((timeline, id) => rippleDelete(timeline, id), prev.timeline) }));
+    setSelectedClipIds(selectedClipIds.filter(id => !ids.includes(id)));
+  };
+
+  const handleNudge = (direction: 1 | -1) => {
+    const ids = getEditableSelection();
+    if (ids.length === 0) return;
+    commit(ids.length > 1 ? 'Nudge Clips' : 'Nudge Clip', prev => ({
+        ...prev,
+        timeline: placeClips(shiftClips(prev.timeline, ids, direction * frameDuration), ids, editMode)
+    }));
+  };
+
+  const handleCopy = () => {
+    const copied = project.timeline.filter(c => selectedClipIds.includes(c.id));
+    if (copied.length > 0) setClipboard(copied);
+  };
+
+  const handleCut = () => {
+    const ids = getEditableSelection();
+    if (ids.length === 0) return;
+    setClipboard(project.timeline.filter(c => ids.includes(c.id)));
+    handleDeleteSelection();
+  };
+
+  // Pasted clips keep their spacing and tracks, starting at the playhead. A clip whose track is gone
+  // or locked goes to the first unlocked track that takes its media, or a new one.
+  const handlePaste = () => {
+    if (clipboard.length === 0) return;
+    const earliest = Math.min(...clipboard.map(c => c.startOffset));
+    const newTracks: Track[] = [];
+    const pasted: TimelineClip[] = [];
+
+    for (const clip of clipboard) {
+        const asset = project.assets.find(a => a.id === clip.assetId);
+        if (!asset) continue;
+        const withNewTracks = { ...project, tracks: [...project.tracks, ...newTracks] };
+        let track = withNewTracks.tracks.find(t => t.id === clip.trackId && !t.locked)
+            ?? getOrderedTracks(withNewTracks).find(t => isTrackCompatible(t, asset.type) && !t.locked);
+        if (!track) {
+            const kind = getTrackKindForMedia(asset.type);
+            track = createTrack(kind, getNextTrackName(withNewTracks, kind), withNewTracks.tracks.length);
+            newTracks.push(track);
+        }
+        // Clips copied before a frame rate change are put back on the grid
+        pasted.push(snapClipToFrames({ ...clip, id: crypto.randomUUID(), trackId: track.id, startOffset: currentTime + clip.startOffset - earliest }, frameRate));
+    }
+    if (pasted.length === 0) return;
+
+    const ids = pasted.map(c => c.id);
+    commit(pasted.length > 1 ? 'Paste Clips' : 'Paste Clip', prev => ({
+        ...prev,
+        tracks: [...prev.tracks, ...newTracks],
+        timeline: placeClips([...prev.timeline, ...pasted], ids, editMode)
+    }));
+    setSelectedClipIds(ids);
+  };
+
+  // A finished drag resolves collisions in the same undo step as the drag itself
+  const handleEditEnd = (clipIds: string[]) => {
+    commit('Edit Clip', prev => ({ ...prev, timeline: placeClips(prev.timeline, clipIds, editMode) }));
+    endTransaction();
+  };
+
+  const handleUpdateClips = (updates: Record<string, Partial<TimelineClip>>) => {
+    commit('Edit Clip', prev => ({
+        ...prev,
+        timeline: prev.timeline.map(c => 
+            updates[c.id] ? { ...c, ...updates[c.id] } : c
+        )
+    }));
+  };
+
+  // Splits every selected clip under the playhead; the pieces after the cut become the selection
+  const handleSplit = () => {
+      const splits = new Map<string, TimelineClip[]>();
+      for (const id of getEditableSelection()) {
+          const parts = splitClipAt(project.timeline.find(c => c.id === id)!, currentTime);
+          if (parts) splits.set(id, parts);
+      }
+      if (splits.size === 0) return;
+
+      commit(splits.size > 1 ? 'Split Clips' : 'Split Clip', prev => ({
+          ...prev,
+          timeline: prev.timeline.flatMap(c => splits.get(c.id) ?? [c])
+      }));
+      setSelectedClipIds(selectedClipIds.map(id => splits.get(id)?.[1].id ?? id));
+  };
+
+  // The video frame under the playhead: the selected clip's, else the topmost visible video's
+  const getFreezeFrameSource = () => {
+    const videos = getActiveVisualClips(project, currentTime)
+        .filter(active => active.asset.type === MediaType.VIDEO && !isClipLocked(active.clip.id));
+    return videos.find(active => active.clip.id === selectedClipId) ?? videos[videos.length - 1];
+  };
+  const freezeFrameSource = getFreezeFrameSource();
+
+  // Holds the frame under the playhead as a still, inserted into the video clip's track so the rest of
+  // the clip plays on after it
+  const handleFreezeFrame = async () => {
+    if (!freezeFrameSource) return;
+    const { clip, asset, mediaTime } = freezeFrameSource;
+    const at = currentTime;
+    try {
+        const src = URL.createObjectURL(await captureVideoFrame(asset.src, mediaTime));
+        const still: MediaAsset = {
+            id: crypto.randomUUID(),
+            type: MediaType.IMAGE,
+            src,
+            name: `${asset.name} (${formatTimecode(mediaTime, frameRate)})`,
+            duration: FREEZE_FRAME_DURATION,
+            thumbnail: await createThumbnail(src, MediaType.IMAGE),
+        };
+        const stillClip: TimelineClip = {
+            id: crypto.randomUUID(),
+            assetId: still.id,
+            startOffset: at,
+            mediaStart: 0,
+            duration: FREEZE_FRAME_DURATION,
+            trackId: clip.trackId,
+            // Framed exactly as the video is at that moment
+            transform: getAnimatedValues(clip, asset, at).transform,
+        };
+        commit('Freeze Frame', prev => ({
+            ...prev,
+            assets: [...prev.assets, still],
+            timeline: placeClip([...prev.timeline, stillClip], stillClip.id, EditMode.INSERT)
+        }));
+        setSelectedClipIds([stillClip.id]);
+    } catch (e) {
+        alert(e instanceof Error ? e.message : "Could not capture the frame.");
+    }
+  };
+
+  const handleSetTransition = (clipId: string, transition: Transition | undefined) => {
+    if (isClipLocked(clipId)) return;
+    const existing = project.timeline.find(c => c.id === clipId)?.transitionIn;
+    const label = !transition ? 'Remove Transition' : existing ? 'Edit Transition' : 'Add Transition';
+    commit(label, prev => ({
+        ...prev,
+        timeline: prev.timeline.map(c => c.id === clipId ? { ...c, transitionIn: transition } : c)
+    }));
+  };
+
+  // On-canvas handles: keyed properties get a key at the playhead, the rest change directly
+  const handleTransformClip = (clipId: string, { x, y, scale, rotation }: ClipTransform) => {
+    if (isClipLocked(clipId)) return;
+    commit('Transform Clip', prev => ({
+        ...prev,
+        timeline: prev.timeline.map(c => c.id === clipId ? applyValuesAt(c, currentTime, { x, y, scale, rotation }) : c)
+    }));
+  };
+
+  const handleReplaceClip = (clip: TimelineClip) => {
+    if (isClipLocked(clip.id)) return;
+    const resized = project.timeline.find(c => c.id === clip.id)?.duration !== clip.duration;
+    commit('Edit Clip', prev => {
+        const timeline = prev.timeline.map(c => c.id === clip.id ? clip : c);
+        // A speed change resizes the clip, which then makes room like a trim
+        return { ...prev, timeline: resized ? placeClip(timeline, clip.id, editMode) : timeline };
+    });
+  };
+
+  // The imported table is shared by the project and applied to the clip it was picked for
+  const handleImportLut = async (clipId: string, file: File) => {
+    if (isClipLocked(clipId)) return;
+    try {
+        const lut = parseCubeLut(await file.text(), file.name);
+        commit('Import LUT', prev => ({
+            ...prev,
+            luts: [...(prev.luts ?? []), lut],
+            timeline: prev.timeline.map(c => c.id === clipId ? { ...c, lutId: lut.id } : c)
+        }));
+    } catch (e) {
+        alert(`Could not import ${file.name}: ${e instanceof Error ? e.message : "Invalid LUT file."}`);
+    }
+  };
+
+  const handlePickKeyColor = (color: string | null) => {
+    const clip = project.timeline.find(c => c.id === keyColorClipId);
+    setKeyColorClipId(null);
+    if (color && clip?.chromaKey) handleReplaceClip({ ...clip, chromaKey: { ...clip.chromaKey, color } });
+  };
+
+  const handleUpdateAsset = (assetId: string, updates: Partial<MediaAsset>) => {
+    commit('Edit Media', prev => ({
+        ...prev,
+        assets: prev.assets.map(a => a.id === assetId ? { ...a, ...updates } : a)
+    }));
+  };
+
+  // --- Subtitles ---
+
+  // Each file gets an empty subtitle track (e.g. one per language), so its cues keep their exact timing
+  const handleImportSubtitles = async (file: File) => {
+    try {
+        const content = await file.text();
+        const subtitles = parseSubtitles(content, getSubtitleFormat(file.name, content));
+        if (subtitles.cues.length === 0) throw new Error("The file contains no cues.");
+
+        const existingTrack = getOrderedTracks(project).find(t =>
+            t.kind === TrackKind.SUBTITLE && !t.locked && !project.timeline.some(c => c.trackId === t.id)
+        );
+        const track = existingTrack ?? createTrack(TrackKind.SUBTITLE, getNextTrackName(project, TrackKind.SUBTITLE), project.tracks.length);
+        const { asset, clips } = createSubtitleClips(subtitles, file.name, track.id, frameRate);
+
+        commit('Import Subtitles', prev => ({
+            ...prev,
+            assets: [...prev.assets, asset],
+            tracks: existingTrack ? prev.tracks : [...prev.tracks, track],
+            timeline: [...prev.timeline, ...clips]
+        }));
+    } catch (e) {
+        alert(`Could not import ${file.name}: ${e instanceof Error ? e.message : "Invalid subtitle file."}`);
+    }
+  };
+
+  const handleAddCue = (trackId: string) => {
+    const existingAsset = project.assets.find(a =>
+        a.type === MediaType.SUBTITLE && project.timeline.some(c => c.trackId === trackId && c.assetId === a.id)
+    );
+    const asset: MediaAsset = existingAsset ?? {
+        id: crypto.randomUUID(),
+        type: MediaType.SUBTITLE,
+        src: '',
+        name: 'Subtitles',
+        duration: 0,
+        subtitle: { format: SubtitleFormat.VTT },
+    };
+    const cue: TimelineClip = {
+        id: crypto.randomUUID(),
+        assetId: asset.id,
+        startOffset: currentTime,
+        mediaStart: 0,
+        duration: DEFAULT_CUE_DURATION,
+        trackId,
+        cue: { text: 'New subtitle' },
+    };
+
+    commit('Add Cue', prev => ({
+        ...prev,
+        assets: existingAsset ? prev.assets : [...prev.assets, asset],
+        timeline: placeClip([...prev.timeline, cue], cue.id, editMode)
+    }));
+    setSelectedClipIds([cue.id]);
+  };
+
+  const handleExportSubtitles = (trackId: string, format: SubtitleFormat) => {
+    const subtitles = getTrackSubtitles(project, trackId);
+    if (subtitles.cues.length === 0) {
+        alert("This track has no subtitles to export.");
+        return;
+    }
+    const trackName = project.tracks.find(t => t.id === trackId)?.name;
+    const blob = new Blob([serializeSubtitles(subtitles, format)], { type: format === SubtitleFormat.VTT ? 'text/vtt' : 'application/x-subrip' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${project.name || 'subtitles'} - ${trackName}.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // --- Settings ---
+
+  // A new frame rate moves every clip (and the playhead) onto its frames
+  const handleUpdateSettings = (settings: ProjectSettings) => {
+    commit('Project Settings', prev => ({
+        ...prev,
+        settings,
+        timeline: settings.frameRate !== prev.settings.frameRate ? snapTimelineToFrames(prev.timeline, settings.frameRate) : prev.timeline
+    }));
+    setCurrentTime(snapToFrame(currentTime, settings.frameRate));
+    setShowSettings(false);
+  };
+
+  // --- Tracks ---
+
+  const handleAddTrack = (kind: TrackKind) => {
+    commit('Add Track', prev => ({
+        ...prev,
+        tracks: [...prev.tracks, createTrack(kind, getNextTrackName(prev, kind), prev.tracks.length)]
+    }));
+  };
+
+  const handleUpdateTrack = (trackId: string, updates: Partial<Track>) => {
+    commit('Edit Track', prev => ({
+        ...prev,
+        tracks: prev.tracks.map(t => t.id === trackId ? { ...t, ...updates } : t)
+    }));
+  };
+
+  const handleDeleteTrack = (trackId: string) => {
+    const clipCount = project.timeline.filter(c => c.trackId === trackId).length;
+    if (clipCount > 0 && !confirm(`Delete this track and its ${clipCount} clip(s)?`)) return;
+    commit('Delete Track', prev => ({
+        ...prev,
+        tracks: normalizeTrackOrder(prev.tracks.filter(t => t.id !== trackId)),
+        timeline: prev.timeline.filter(c => c.trackId !== trackId)
+    }));
+    setSelectedClipIds(ids => ids.filter(id => !project.timeline.some(c => c.id === id && c.trackId === trackId)));
+  };
+
+  const handleMoveTrack = (trackId: string, direction: -1 | 1) => {
+    commit('Reorder Tracks', prev => {
+        const ordered = getOrderedTracks(prev);
+        const index = ordered.findIndex(t => t.id === trackId);
+        const target = index + direction;
+        if (index === -1 || target < 0 || target >= ordered.length) return prev;
+        [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+        return { ...prev, tracks: ordered.map((track, order) => ({ ...track, order })) };
+    });
+  };
+
+  // --- Playback Logic ---
+
+  // Main Loop: the playhead is wherever the master clock says, measured from where playback started,
+  // so it can't drift from the audio. The audio output clock leads once the mixer runs; until then
+  // (or if the browser keeps audio suspended) the page clock stands in.
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const readClock = () => {
+        const audioTime = mixer.getClockTime();
+        return audioTime !== null ? { source: 'audio', seconds: audioTime } : { source: 'page', seconds: performance.now() / 1000 };
+    };
+    let anchor = { time: currentTimeRef.current, ...readClock() };
+    let frame = 0;
+
+    const loop = () => {
+        const clock = readClock();
+        // Switching clocks restarts the measurement from the current position
+        if (clock.source !== anchor.source) anchor = { time: currentTimeRef.current, ...clock };
+        const next = anchor.time + (clock.seconds - anchor.seconds) * playbackRate;
+
+        const stop = getPlaybackStop(next, playbackRate, totalDuration);
+        if (stop !== null) {
+            setIsPlaying(false);
+            setCurrentTime(stop);
+            return;
+        }
+        // Preview shows whole frames, just like the export
+        const time = snapToFrame(next, frameRate);
+        currentTimeRef.current = time;
+        setCurrentTime(time);
+        frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, playbackRate, totalDuration, frameRate]);
+
+  // The mixer graph has to exist before the preview's media elements first play, or they bypass it.
+  // Starting it here, inside the click or key press, also satisfies the browser's autoplay rules.
+  const play = (rate: number) => {
+    mixer.start();
+    setPlaybackRate(rate);
+    setIsPlaying(true);
+  };
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      setPlaybackRate(1);
+      setIsPlaying(false);
+    } else {
+      play(1);
+    }
+  };
+
+  // J/L shuttle: play in a direction, each further press in the same direction doubles the speed
+  const shuttle = (direction: 1 | -1) => {
+    const speed = isPlaying && Math.sign(playbackRate) === direction ? Math.min(Math.abs(playbackRate) * 2, MAX_SHUTTLE_SPEED) : 1;
+    play(direction * speed);
+  };
+
+  // Every stop of the playhead is a whole frame, so edits made there are too
+  const seek = (time: number) => {
+    setIsPlaying(false);
+    setCurrentTime(snapToFrame(Math.max(time, 0), frameRate));
+  };
+
+  const seekTo = (time: number) => seek(Math.min(time, totalDuration));
+
+  const stepFrame = (direction: 1 | -1) => seekTo(currentTime + direction * frameDuration);
+
+  const jumpToEditPoint = (direction: 1 | -1) => {
+    const points = getEditPoints(project.timeline);
+    const target = direction > 0
+        ? points.find(point => point > currentTime + 1e-3)
+        : [...points].reverse().find(point => point < currentTime - 1e-3);
+    if (target !== undefined) seekTo(target);
+  };
+
+  // --- Shortcuts ---
+
+  const shortcutBindings = useShortcutBindings();
+  const hint = (action: ShortcutAction) => getShortcutHint(shortcutBindings, action);
+
+  useShortcuts({
+    [ShortcutAction.PLAY_PAUSE]: togglePlay,
+    [ShortcutAction.SHUTTLE_REVERSE]: () => shuttle(-1),
+    [ShortcutAction.SHUTTLE_STOP]: () => setIsPlaying(false),
+    [ShortcutAction.SHUTTLE_FORWARD]: () => shuttle(1),
+    [ShortcutAction.FRAME_BACK]: () => stepFrame(-1),
+    [ShortcutAction.FRAME_FORWARD]: () => stepFrame(1),
+    [ShortcutAction.PREVIOUS_EDIT]: () => jumpToEditPoint(-1),
+    [ShortcutAction.NEXT_EDIT]: () => jumpToEditPoint(1),
+    [ShortcutAction.GO_TO_START]: () => seekTo(0),
+    [ShortcutAction.GO_TO_END]: () => seekTo(totalDuration),
+    [ShortcutAction.SELECT_ALL]: () => setSelectedClipIds(project.timeline.map(c => c.id)),
+    [ShortcutAction.COPY]: handleCopy,
+    [ShortcutAction.CUT]: handleCut,
+    [ShortcutAction.PASTE]: handlePaste,
+    [ShortcutAction.NUDGE_LEFT]: () => handleNudge(-1),
+    [ShortcutAction.NUDGE_RIGHT]: () => handleNudge(1),
+    [ShortcutAction.SPLIT]: handleSplit,
+    [ShortcutAction.FREEZE_FRAME]: handleFreezeFrame,
+    [ShortcutAction.DELETE]: handleDeleteSelection,
+    [ShortcutAction.RIPPLE_DELETE]: handleRippleDeleteSelection,
+    [ShortcutAction.UNDO]: undo,
+    [ShortcutAction.REDO]: redo,
+    [ShortcutAction.SHOW_SHORTCUTS]: () => setShowShortcuts(true),
+  }, !showExportDialog && !editingTextAsset && !showShortcuts && !showSettings && !showSnapshots);
+
+  return (
+    <div className="flex h-screen bg-black text-white font-sans overflow-hidden">
+      
+      <AssetLibrary 
+        assets={project.assets} 
+        onAddAsset={handleAddAsset}
+        onAddToTimeline={handleAddToTimeline}
+        onImportSubtitles={handleImportSubtitles}
+      />
+
+      <div className="flex-1 flex flex-col min-w-0">
+        
+        <header className="h-12 border-b border-zinc-800 flex items-center justify-between px-4 bg-zinc-900">
+            <div className="flex items-center gap-2">
+                <Button variant="ghost" size="sm" className="px-2" onClick={handleClose} disabled={isSaving} title="Back to Projects">
+                    <ChevronLeft size={16} />
+                </Button>
+                <div className="w-6 h-6 bg-gradient-to-tr from-blue-500 to-purple-600 rounded-md"></div>
+                <h1 className="font-bold text-sm tracking-wide">VN Clone <span className="text-zinc-500 font-normal">| {project.name}</span></h1>
+            </div>
+            <div className="flex items-center gap-3">
+                {storageUsage && (
+                    <div className="flex items-center text-[10px] text-zinc-500 font-mono" title="Browser storage used by saved projects">
+                        <HardDrive size={12} className="mr-1" />
+                        {formatBytes(storageUsage.usage)} / {formatBytes(storageUsage.quota)}
+                    </div>
+                )}
+                <Button variant="ghost" size="sm" className="px-2" onClick={() => setShowSettings(true)} title={`Project Settings (${project.settings.width}×${project.settings.height}, ${frameRate} fps)`}>
+                    <Settings2 size={16} />
+                </Button>
+                <Button variant="ghost" size="sm" className="px-2" onClick={() => setShowShortcuts(true)} title={`Keyboard Shortcuts${hint(ShortcutAction.SHOW_SHORTCUTS)}`}>
+                    <Keyboard size={16} />
+                </Button>
+                <Button variant="ghost" size="sm" className="px-2" onClick={handleExportBundle} disabled={isBundling} title="Export Project Bundle (project and media in one file)">
+                    {isBundling ? <Loader2 size={16} className="animate-spin" /> : <Package size={16} />}
+                </Button>
+                <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={project.timeline.length === 0}
+                    onClick={() => {
+                        setIsPlaying(false);
+                        setShowExportDialog(true);
+                    }}
+                >
+                    <Download size={14} className="mr-2"/> Export
+                </Button>
+                <span
+                    className={`text-[10px] ${saveFailed ? 'text-red-400' : 'text-zinc-500'}`}
+                    title={saveFailed ? failedSave?.error : 'Changes are saved automatically'}
+                >
+                    {isSaving ? 'Saving…' : saveFailed ? 'Save failed' : hasUnsavedChanges ? 'Unsaved changes' : 'All changes saved'}
+                </span>
+                <Button variant="ghost" size="sm" className="px-2" onClick={() => setShowSnapshots(true)} title="Versions">
+                    <History size={16} />
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => handleSave()} disabled={isSaving}>
+                    {isSaving ? <Loader2 size={14} className="mr-2 animate-spin"/> : <Save size={14} className="mr-2"/>} Save
+                </Button>
+            </div>
+        </header>
+
+        {/* Preview Player */}
+        <div className="flex-1 bg-black relative flex items-center justify-center overflow-hidden">
+            <PreviewPlayer
+                project={project}
+                currentTime={currentTime}
+                isPlaying={isPlaying}
+                playbackRate={playbackRate}
+                mixer={mixer}
+                selectedClipId={selectedClipId}
+                pickingColor={!!keyColorClipId && keyColorClipId === selectedClipId}
+                onPickColor={handlePickKeyColor}
+                onTransformStart={() => beginTransaction('Transform Clip')}
+                onTransform={handleTransformClip}
+                onTransformEnd={endTransaction}
+            />
+        </div>
+
+        {/* Tools */}
+        <div className="h-12 bg-zinc-900 border-t border-zinc-800 flex items-center justify-center gap-4 px-4 z-10">
+            <Button variant="ghost" size="icon" onClick={() => seekTo(0)} title={`Go to Start${hint(ShortcutAction.GO_TO_START)}`}>
+                <SkipBack size={18} fill="currentColor" />
+            </Button>
+            <Button variant="primary" size="icon" className="rounded-full w-12 h-12" onClick={togglePlay} title={`Play / Pause${hint(ShortcutAction.PLAY_PAUSE)}`}>
+                {isPlaying ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" ml-1 />}
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => seekTo(totalDuration)} title={`Go to End${hint(ShortcutAction.GO_TO_END)}`}>
+                <SkipForward size={18} fill="currentColor" />
+            </Button>
+            
+            <div className="w-px h-6 bg-zinc-700 mx-2"></div>
+
+            <Button
+                variant="ghost"
+                size="icon"
+                disabled={!undoLabel}
+                onClick={undo}
+                title={`${undoLabel ? `Undo ${undoLabel}` : 'Undo'}${hint(ShortcutAction.UNDO)}`}
+            >
+                <Undo2 size={16} />
+            </Button>
+            <Button
+                variant="ghost"
+                size="icon"
+                disabled={!redoLabel}
+                onClick={redo}
+                title={`${redoLabel ? `Redo ${redoLabel}` : 'Redo'}${hint(ShortcutAction.REDO)}`}
+            >
+                <Redo2 size={16} />
+            </Button>
+            
+            <Button
+                variant="ghost"
+                size="icon"
+                disabled={selectedClipIds.length === 0}
+                onClick={handleCopy}
+                title={`Copy Selected Clips${hint(ShortcutAction.COPY)}`}
+            >
+                <Copy size={16} />
+            </Button>
+            <Button
+                variant="ghost"
+                size="icon"
+                disabled={clipboard.length === 0}
+                onClick={handlePaste}
+                title={`Paste at Playhead${hint(ShortcutAction.PASTE)}`}
+            >
+                <ClipboardPaste size={16} />
+            </Button>
+            
+            <Button 
+                variant="ghost" 
+                size="sm" 
+                disabled={selectedClipIds.length === 0} 
+                onClick={handleSplit}
+                title={`Split Selected Clips at Playhead${hint(ShortcutAction.SPLIT)}`}
+            >
+                <Scissors size={16} className="mr-2" /> Split
+            </Button>
+            <Button
+                variant="ghost"
+                size="sm"
+                disabled={!freezeFrameSource}
+                onClick={handleFreezeFrame}
+                title={`Insert a Still of the Video Frame at the Playhead${hint(ShortcutAction.FREEZE_FRAME)}`}
+            >
+                <Snowflake size={16} className="mr-2" /> Freeze
+            </Button>
+            <Button 
+                variant="danger" 
+                size="sm" 
+                disabled={selectedClipIds.length === 0} 
+                onClick={handleDeleteSelection}
+                title={`Delete Selected Clips${hint(ShortcutAction.DELETE)}`}
+            >
+                <Trash2 size={16} className="mr-2" /> Delete
+            </Button>
+            <Button
+                variant="danger"
+                size="sm"
+                disabled={selectedClipIds.length === 0}
+                onClick={handleRippleDeleteSelection}
+                title={`Delete Selected Clips and Close Gaps${hint(ShortcutAction.RIPPLE_DELETE)}`}
+            >
+                <ArrowLeftToLine size={16} className="mr-2" /> Ripple
+            </Button>
+
+            <div className="w-px h-6 bg-zinc-700 mx-2"></div>
+
+            {/* How drags resolve collisions on the target track */}
+            <div className="flex rounded-lg border border-zinc-700 overflow-hidden text-xs">
+                {[
+                    { mode: EditMode.OVERWRITE, label: 'Overwrite', title: 'Dropped clips trim whatever they land on' },
+                    { mode: EditMode.INSERT, label: 'Insert', title: 'Dropped clips push later clips along' },
+                ].map(option => (
+                    <button
+                        key={option.mode}
+                        className={`px-2 h-7 transition-colors ${editMode === option.mode ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:bg-zinc-800'}`}
+                        onClick={() => setEditMode(option.mode)}
+                        title={option.title}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+            
+            <div className="flex-1"></div>
+            {isPlaying && playbackRate !== 1 && (
+                <div className="text-xs font-mono text-amber-400" title="Shuttle Speed">{playbackRate}×</div>
+            )}
+            <div className="flex items-center text-sm font-mono text-zinc-400">
+                <TimecodeInput time={currentTime} frameRate={frameRate} onChange={seek} className="w-28 h-7 text-zinc-200" />
+                <span className="mx-1">/</span>
+                <span title={`${frameRate} fps`}>{formatTimecode(totalDuration, frameRate)}</span>
+            </div>
+        </div>
+
+        {/* Timeline */}
+        <div className="h-72 flex-shrink-0">
+            <Timeline 
+                tracks={getOrderedTracks(project)}
+                clips={project.timeline}
+                assets={project.assets}
+                currentTime={currentTime}
+                isPlaying={isPlaying}
+                frameRate={frameRate}
+                totalDuration={Math.max(totalDuration, 30)}
+                onSeek={seek}
+                selectedClipIds={selectedClipIds}
+                onSelectClips={setSelectedClipIds}
+                onDeleteClip={handleDeleteClip}
+                onUpdateClips={handleUpdateClips}
+                onEditStart={beginTransaction}
+                onEditEnd={handleEditEnd}
+                onAddTrack={handleAddTrack}
+                onUpdateTrack={handleUpdateTrack}
+                onDeleteTrack={handleDeleteTrack}
+                onMoveTrack={handleMoveTrack}
+                onSetTransition={handleSetTransition}
+                onAddCue={handleAddCue}
+                onExportSubtitles={handleExportSubtitles}
+            />
+        </div>
+
+      </div>
+
+      {selectedClip && selectedAsset && selectedAsset.type !== MediaType.SUBTITLE && (
+        <ClipInspector
+            clip={selectedClip}
+            asset={selectedAsset}
+            currentTime={currentTime}
+            locked={isClipLocked(selectedClip.id)}
+            frameRate={frameRate}
+            luts={project.luts ?? []}
+            onChange={handleReplaceClip}
+            isOverlay={selectedClip.trackId !== getBaseVideoTrack(project)?.id}
+            pickingKeyColor={keyColorClipId === selectedClip.id}
+            onImportLut={(file) => handleImportLut(selectedClip.id, file)}
+            onPickKeyColor={() => setKeyColorClipId(keyColorClipId === selectedClip.id ? null : selectedClip.id)}
+            onAssetChange={(updates) => handleUpdateAsset(selectedAsset.id, updates)}
+            onEditText={() => setEditingTextAssetId(selectedAsset.id)}
+            onEditStart={() => beginTransaction('Edit Clip')}
+            onEditEnd={endTransaction}
+        />
+      )}
+
+      {showExportDialog && (
+        <ExportDialog project={project} onClose={() => setShowExportDialog(false)} />
+      )}
+
+      {editingTextAsset && (
+        <TextEditorDialog
+            title="Edit Text"
+            initialText={editingTextAsset.textContent}
+            initialStyle={editingTextAsset.textStyle}
+            onSave={(text, textStyle) => {
+                handleUpdateAsset(editingTextAsset.id, { textContent: text, textStyle, name: `T: ${text.slice(0, 10)}` });
+                setEditingTextAssetId(null);
+            }}
+            onClose={() => setEditingTextAssetId(null)}
+        />
+      )}
+
+      {showShortcuts && (
+        <ShortcutsDialog onClose={() => setShowShortcuts(false)} />
+      )}
+
+      {showSettings && (
+        <ProjectSettingsDialog settings={project.settings} onSave={handleUpdateSettings} onClose={() => setShowSettings(false)} />
+      )}
+
+      {showSnapshots && (
+        <SnapshotsDialog
+            projectId={project.id}
+            onTakeSnapshot={handleTakeSnapshot}
+            onRestore={handleRestoreSnapshot}
+            onClose={() => setShowSnapshots(false)}
+        />
+      )}
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,129 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Project } from '../types';
+import { Button } from './Button';
+import { Download, Loader2 } from 'lucide-react';
+import { exportProject, isExportSupported, getExportResolutions, getExportFrameRates } from '../services/exportService';
+
+interface ExportDialogProps {
+  project: Project;
+  onClose: () => void;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ project, onClose }) => {
+  const [resolutionIndex, setResolutionIndex] = useState(0);
+  const [frameRate, setFrameRate] = useState(project.settings.frameRate);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const resolutions = getExportResolutions(project.settings);
+  const frameRates = getExportFrameRates(project.settings);
+  const isExporting = progress !== null;
+  const supported = isExportSupported();
+
+  // Abandon a running export if the dialog goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+
+    try {
+        const { width, height } = resolutions[resolutionIndex];
+        const blob = await exportProject(project, { width, height, frameRate }, {
+            onProgress: setProgress,
+            signal: controller.signal,
+        });
+
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${project.name || 'export'}.webm`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+        onClose();
+    } catch (e) {
+        if (e instanceof DOMException && e.name === 'AbortError') return;
+        console.error("Export failed", e);
+        setError(e instanceof Error ? e.message : "Export failed.");
+    } finally {
+        abortRef.current = null;
+        setProgress(null);
+    }
+  };
+
+  const handleCancel = () => {
+    if (isExporting) abortRef.current?.abort();
+    else onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm">
+        <div className="bg-zinc-900 border border-zinc-700 rounded-xl p-6 w-full max-w-sm shadow-2xl">
+            <h3 className="text-lg font-bold text-white mb-2 flex items-center gap-2">
+                <Download className="text-blue-500" size={18} />
+                Export Video
+            </h3>
+            <p className="text-zinc-400 text-sm mb-4">
+                Renders every track to a WebM file in your browser.
+            </p>
+
+            {!supported && (
+                <p className="text-red-400 text-sm mb-4">
+                    This browser does not support WebCodecs, which export requires. Try a recent Chrome, Edge or Firefox.
+                </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-3 mb-4">
+                <label className="text-xs text-zinc-400">
+                    Resolution
+                    <select
+                        className="mt-1 w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                        value={resolutionIndex}
+                        disabled={isExporting}
+                        onChange={(e) => setResolutionIndex(Number(e.target.value))}
+                    >
+                        {resolutions.map((r, i) => (
+                            <option key={r.label} value={i}>{r.label} ({r.width}×{r.height})</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="text-xs text-zinc-400">
+                    Frame Rate
+                    <select
+                        className="mt-1 w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                        value={frameRate}
+                        disabled={isExporting}
+                        onChange={(e) => setFrameRate(Number(e.target.value))}
+                    >
+                        {frameRates.map(fps => (
+                            <option key={fps} value={fps}>{fps} fps{fps === project.settings.frameRate ? ' (Project)' : ''}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {isExporting && (
+                <div className="mb-4">
+                    <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
+                        <div className="h-full bg-blue-600 transition-[width]" style={{ width: `${progress * 100}%` }} />
+                    </div>
+                    <p className="text-xs text-zinc-500 mt-1 font-mono">{Math.round(progress * 100)}%</p>
+                </div>
+            )}
+
+            {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+                <Button variant="ghost" onClick={handleCancel}>Cancel</Button>
+                <Button onClick={handleExport} disabled={!supported || isExporting || project.timeline.length === 0}>
+                    {isExporting ? <Loader2 className="animate-spin mr-2" size={16} /> : null}
+                    {isExporting ? 'Exporting...' : 'Export'}
+                </Button>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,402 @@
+import React, { useEffect, useRef, useCallback, useState } from 'react';
+import { Project, MediaAsset, TimelineClip, MediaType, TrackKind, ClipTransform } from '../types';
+import { compositeFrame, getActiveClip, getActiveVisualClips, getMediaTime, getTrackFrame, ActiveClip, LayerBounds, VisualSource } from '../services/compositor';
+import { getClipSpeed } from '../services/clipSpeed';
+import { getAnimatedValues } from '../services/keyframes';
+import { getOrderedTracks } from '../services/projectService';
+import { getAudibleClips, getClipGain } from '../services/audioMixer';
+import { AudioMixer } from '../hooks/useAudioMixer';
+import { AudioMeter } from './AudioMeter';
+
+interface PreviewPlayerProps {
+  project: Project;
+  currentTime: number;
+  isPlaying: boolean;
+  // Shuttle speed; negative plays backwards
+  playbackRate: number;
+  // Owned by the editor, whose playback clock runs on it
+  mixer: AudioMixer;
+  selectedClipId: string | null;
+  // Eyedropper for the selected clip's chroma key; null when cancelled
+  pickingColor: boolean;
+  onPickColor: (color: string | null) => void;
+  // Bracket a handle drag so it becomes a single undo step
+  onTransformStart: () => void;
+  onTransform: (clipId: string, transform: ClipTransform) => void;
+  onTransformEnd: () => void;
+}
+
+type HandleDrag = {
+  mode: 'move' | 'scale' | 'rotate';
+  clipId: string;
+  startX: number;
+  startY: number;
+  center: { x: number; y: number }; // Client coordinates
+  original: ClipTransform;
+};
+
+const ROTATION_SNAP_DEGREES = 15;
+// Pixels per side averaged by the eyedropper
+const COLOR_SAMPLE_SIZE = 3;
+const HANDLE_CORNERS = ['-left-1.5 -top-1.5', '-right-1.5 -top-1.5', '-left-1.5 -bottom-1.5', '-right-1.5 -bottom-1.5'];
+
+const sameBounds = (a: LayerBounds | null, b: LayerBounds | null) =>
+  a === b || (!!a && !!b && a.clipId === b.clipId && a.cx === b.cx && a.cy === b.cy &&
+    a.width === b.width && a.height === b.height && a.rotation === b.rotation);
+
+// How far ahead video clips get a decoder, so they are ready by the time they appear
+const PRELOAD_LOOKAHEAD = 1.5;
+// How far media may drift from the playhead before it is re-seeked. Playing media keeps its own time;
+// parked media follows every scrub, frame step and backwards shuttle.
+const PLAYING_SYNC_TOLERANCE = 0.3;
+const PARKED_SYNC_TOLERANCE = 0.01;
+// Browsers refuse faster rates; a fast shuttle over a sped-up clip would ask for up to 32x
+const MAX_ELEMENT_PLAYBACK_RATE = 16;
+
+export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({
+  project,
+  currentTime,
+  isPlaying,
+  playbackRate,
+  mixer,
+  selectedClipId,
+  pickingColor,
+  onPickColor,
+  onTransformStart,
+  onTransform,
+  onTransformEnd
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Where the selected clip was last drawn, in canvas pixels
+  const [selectedBounds, setSelectedBounds] = useState<LayerBounds | null>(null);
+  const [handleDrag, setHandleDrag] = useState<HandleDrag | null>(null);
+
+  // Hidden decoders: one element per upcoming video clip (so both sides of a transition decode at once)
+  // and one per audio track
+  const mediaElementsRef = useRef(new Map<string, HTMLMediaElement>());
+  const imageCacheRef = useRef(new Map<string, HTMLImageElement>());
+
+  // Latest props for event-driven redraws (seeked, image loaded, resize)
+  const latestRef = useRef({ project, currentTime, selectedClipId, pickingColor });
+  latestRef.current = { project, currentTime, selectedClipId, pickingColor };
+
+  const audioTracks = getOrderedTracks(project).filter(t => t.kind === TrackKind.AUDIO);
+  const videoTracks = getOrderedTracks(project).filter(t => t.kind === TrackKind.VIDEO);
+  const activeVisualClips = getActiveVisualClips(project, currentTime);
+  const hasVisibleMedia = activeVisualClips.length > 0;
+  const { width: frameWidth, height: frameHeight } = project.settings;
+  const audibleClipIds = new Set(getAudibleClips(project).map(c => c.id));
+
+  // Video clips seen or heard now or starting soon; the rest get no decoder
+  const visibleTrackIds = new Set(videoTracks.filter(t => !t.hidden).map(t => t.id));
+  const decodedClips = project.timeline.filter(clip => {
+    const asset = project.assets.find(a => a.id === clip.assetId);
+    return asset?.type === MediaType.VIDEO && (visibleTrackIds.has(clip.trackId) || audibleClipIds.has(clip.id)) &&
+      clip.startOffset < currentTime + PRELOAD_LOOKAHEAD && clip.startOffset + clip.duration > currentTime - PRELOAD_LOOKAHEAD;
+  });
+
+  const setMediaElement = (key: string, element: HTMLMediaElement | null) => {
+    if (element) mediaElementsRef.current.set(key, element);
+    else mediaElementsRef.current.delete(key);
+  };
+
+  // Decoders come and go as clips enter and leave the lookahead. Refs are reattached on every render,
+  // so elements are released from the mixer once a render has finished without them.
+  const mixedElementsRef = useRef(new Set<HTMLMediaElement>());
+  useEffect(() => {
+    const current = new Set(mediaElementsRef.current.values());
+    mixedElementsRef.current.forEach(element => { if (!current.has(element)) mixer.release(element); });
+    mixedElementsRef.current = current;
+  });
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const resolveSource = (clip: TimelineClip, asset: MediaAsset): VisualSource | undefined => {
+        if (asset.type === MediaType.VIDEO) {
+            const video = mediaElementsRef.current.get(clip.id);
+            return video instanceof HTMLVideoElement && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA ? video : undefined;
+        }
+        if (asset.type === MediaType.IMAGE) {
+            let img = imageCacheRef.current.get(asset.id);
+            if (!img || img.getAttribute('src') !== asset.src) {
+                img = new Image();
+                img.onload = () => draw();
+                img.src = asset.src;
+                imageCacheRef.current.set(asset.id, img);
+            }
+            return img.complete && img.naturalWidth > 0 ? img : undefined;
+        }
+        return undefined;
+    };
+
+    // While picking a key color the clip is shown unkeyed, so its backdrop can be clicked
+    const { project: latestProject, selectedClipId: pickedClipId, pickingColor: picking } = latestRef.current;
+    const shown = picking
+        ? { ...latestProject, timeline: latestProject.timeline.map(c => c.id === pickedClipId ? { ...c, chromaKey: undefined } : c) }
+        : latestProject;
+    const drawn = compositeFrame(ctx, shown, latestRef.current.currentTime, resolveSource);
+    const selected = drawn.find(b => b.clipId === latestRef.current.selectedClipId) ?? null;
+    setSelectedBounds(prev => sameBounds(prev, selected) ? prev : selected);
+  }, []);
+
+  // Keep the canvas backing store matched to its displayed size
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(() => {
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = Math.round(canvas.clientWidth * ratio);
+        canvas.height = Math.round(canvas.clientHeight * ratio);
+        draw();
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [draw]);
+
+  // Sync Video/Audio Elements
+  const syncMediaElement = (element: HTMLMediaElement | undefined, active: ActiveClip | null) => {
+      if (!element) return;
+      if (!active || (active.asset.type !== MediaType.VIDEO && active.asset.type !== MediaType.AUDIO)) {
+          element.pause();
+          return; // No active media for this track
+      }
+
+      if (element.getAttribute('src') !== active.asset.src) {
+          element.src = active.asset.src;
+          element.load();
+      }
+
+      const targetTime = active.mediaTime;
+      // Media elements can't play backwards, so reverse shuttle and reversed clips seek them frame by frame
+      // instead (and are silent until export)
+      const rate = playbackRate * getClipSpeed(active.clip) * (active.clip.reversed ? -1 : 1);
+      const playing = isPlaying && rate > 0;
+
+      if (Math.abs(element.currentTime - targetTime) > (playing ? PLAYING_SYNC_TOLERANCE : PARKED_SYNC_TOLERANCE)) {
+          element.currentTime = targetTime;
+      }
+
+      // Retimed clips keep their pitch; past the element's top rate the drift check keeps them in place
+      element.preservesPitch = true;
+      const elementRate = Math.min(rate, MAX_ELEMENT_PLAYBACK_RATE);
+      if (playing && element.playbackRate !== elementRate) element.playbackRate = elementRate;
+      if (playing && element.paused) {
+          element.play().catch(() => {});
+      } else if (!playing && !element.paused) {
+          element.pause();
+      }
+  };
+
+  // Every element is heard through the mixer at its clip's gain; mute and solo are a gain of zero
+  const getGain = (active: ActiveClip | null | undefined) =>
+      active && audibleClipIds.has(active.clip.id) ? getClipGain(active.clip, currentTime) : 0;
+
+  useEffect(() => {
+     audioTracks.forEach(track => {
+         const element = mediaElementsRef.current.get(track.id);
+         const active = getActiveClip(project, track, currentTime);
+         if (element) mixer.setGain(element, getGain(active));
+         syncMediaElement(element, active);
+     });
+
+     // Includes hidden tracks, whose clips still play for their sound
+     const playingVideoClips = videoTracks.flatMap(track => getTrackFrame(project, track, currentTime)?.layers ?? []);
+     decodedClips.forEach(clip => {
+         const element = mediaElementsRef.current.get(clip.id);
+         const active = playingVideoClips.find(a => a.clip.id === clip.id);
+         if (element) mixer.setGain(element, getGain(active));
+         if (active) {
+             syncMediaElement(element, active);
+         } else if (element && clip.startOffset > currentTime) {
+             // Preroll: park on the first frame so the cut (or transition) has something to draw
+             element.pause();
+             const firstFrame = getMediaTime(clip, clip.startOffset);
+             if (Math.abs(element.currentTime - firstFrame) > 0.05) element.currentTime = firstFrame;
+         } else {
+             element?.pause();
+         }
+     });
+  }, [currentTime, isPlaying, playbackRate, project]);
+
+  useEffect(() => {
+    draw();
+  }, [project, currentTime, selectedClipId, pickingColor, draw]);
+
+  // Escape puts the eyedropper away
+  useEffect(() => {
+    if (!pickingColor) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.key === 'Escape') onPickColor(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [pickingColor, onPickColor]);
+
+  // Averages a few pixels around the click, so sensor noise doesn't decide the key
+  const pickColor = (e: React.PointerEvent) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const rect = canvas.getBoundingClientRect();
+    const x = Math.round(((e.clientX - rect.left) / rect.width) * canvas.width);
+    const y = Math.round(((e.clientY - rect.top) / rect.height) * canvas.height);
+    const size = COLOR_SAMPLE_SIZE;
+    const { data } = ctx.getImageData(x - (size >> 1), y - (size >> 1), size, size);
+    const sum = [0, 0, 0];
+    for (let i = 0; i < data.length; i += 4) {
+        sum[0] += data[i];
+        sum[1] += data[i + 1];
+        sum[2] += data[i + 2];
+    }
+    const pixels = data.length / 4;
+    onPickColor('#' + sum.map(c => Math.round(c / pixels).toString(16).padStart(2, '0')).join(''));
+  };
+
+  // --- Transform Handles ---
+
+  const startHandleDrag = (e: React.PointerEvent, mode: HandleDrag['mode']) => {
+    const canvas = canvasRef.current;
+    const clip = project.timeline.find(c => c.id === selectedClipId);
+    if (!canvas || !clip || !selectedBounds || e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const rect = canvas.getBoundingClientRect();
+    const toClient = rect.width / canvas.width;
+    onTransformStart();
+    setHandleDrag({
+        mode,
+        clipId: clip.id,
+        startX: e.clientX,
+        startY: e.clientY,
+        center: { x: rect.left + selectedBounds.cx * toClient, y: rect.top + selectedBounds.cy * toClient },
+        original: getAnimatedValues(clip, project.assets.find(a => a.id === clip.assetId), currentTime).transform,
+    });
+  };
+
+  useEffect(() => {
+    if (!handleDrag) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const { mode, clipId, startX, startY, center, original } = handleDrag;
+
+        if (mode === 'move') {
+            onTransform(clipId, {
+                ...original,
+                x: original.x + (e.clientX - startX) / canvas.clientWidth,
+                y: original.y + (e.clientY - startY) / canvas.clientHeight,
+            });
+        } else if (mode === 'scale') {
+            // Uniform scale by how far the pointer moved from the center
+            const startDistance = Math.hypot(startX - center.x, startY - center.y) || 1;
+            const distance = Math.hypot(e.clientX - center.x, e.clientY - center.y);
+            onTransform(clipId, { ...original, scale: Math.max(0.05, original.scale * distance / startDistance) });
+        } else {
+            const startAngle = Math.atan2(startY - center.y, startX - center.x);
+            const angle = Math.atan2(e.clientY - center.y, e.clientX - center.x);
+            let rotation = original.rotation + ((angle - startAngle) * 180) / Math.PI;
+            if (e.shiftKey) rotation = Math.round(rotation / ROTATION_SNAP_DEGREES) * ROTATION_SNAP_DEGREES;
+            onTransform(clipId, { ...original, rotation: Math.round(rotation * 10) / 10 });
+        }
+    };
+
+    const handlePointerUp = () => {
+        setHandleDrag(null);
+        onTransformEnd();
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+        window.removeEventListener('pointermove', handlePointerMove);
+        window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [handleDrag, onTransform, onTransformEnd]);
+
+  const renderHandles = () => {
+    const canvas = canvasRef.current;
+    const clip = project.timeline.find(c => c.id === selectedClipId);
+    const track = clip && project.tracks.find(t => t.id === clip.trackId);
+    if (!canvas || !selectedBounds || !track || track.locked || (isPlaying && !handleDrag)) return null;
+
+    const toCss = canvas.clientWidth / canvas.width;
+    const width = selectedBounds.width * toCss;
+    const height = selectedBounds.height * toCss;
+
+    return (
+        <div
+            className="absolute border border-dashed border-yellow-400 cursor-move"
+            style={{
+                left: selectedBounds.cx * toCss - width / 2,
+                top: selectedBounds.cy * toCss - height / 2,
+                width,
+                height,
+                transform: `rotate(${selectedBounds.rotation}deg)`,
+            }}
+            onPointerDown={(e) => startHandleDrag(e, 'move')}
+        >
+            {HANDLE_CORNERS.map(position => (
+                <div
+                    key={position}
+                    className={`absolute ${position} w-3 h-3 bg-white border border-yellow-500 rounded-sm cursor-nwse-resize`}
+                    onPointerDown={(e) => startHandleDrag(e, 'scale')}
+                />
+            ))}
+            {/* Rotation handle above the top edge; hold Shift to snap */}
+            <div className="absolute left-1/2 -top-6 w-px h-5 bg-yellow-400 pointer-events-none" />
+            <div
+                className="absolute left-1/2 -top-8 -ml-1.5 w-3 h-3 bg-yellow-400 rounded-full cursor-grab"
+                title="Rotate (Shift to snap)"
+                onPointerDown={(e) => startHandleDrag(e, 'rotate')}
+            />
+        </div>
+    );
+  };
+
+  return (
+    <div
+        className="bg-zinc-900 shadow-2xl relative group overflow-hidden"
+        // As large as fits, at the project's aspect ratio
+        style={{
+            aspectRatio: `${frameWidth} / ${frameHeight}`,
+            width: `min(100%, 56rem, calc((100vh - 350px) * ${frameWidth / frameHeight}))`,
+        }}
+    >
+        <canvas ref={canvasRef} className="w-full h-full block" />
+        {pickingColor ? (
+            <div className="absolute inset-0 cursor-crosshair" onPointerDown={pickColor} title="Click the color to key out (Esc to cancel)" />
+        ) : renderHandles()}
+
+        <div className="absolute right-2 top-2 pointer-events-none">
+            <AudioMeter analysers={mixer.meters} />
+        </div>
+
+        {!hasVisibleMedia && (
+            <div className="absolute inset-0 flex items-center justify-center text-zinc-700 pointer-events-none">
+                <p>No Media</p>
+            </div>
+        )}
+
+        {decodedClips.map(clip => (
+            <video
+                key={clip.id}
+                ref={(el) => setMediaElement(clip.id, el)}
+                src={project.assets.find(a => a.id === clip.assetId)?.src}
+                className="hidden"
+                playsInline
+                preload="auto"
+                onSeeked={draw}
+                onLoadedData={draw}
+            />
+        ))}
+        {audioTracks.map(track => (
+            <audio key={track.id} ref={(el) => setMediaElement(track.id, el)} className="hidden" />
+        ))}
+    </div>
+  );
+};
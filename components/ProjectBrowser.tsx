@@ -0,0 +1,297 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Button } from './Button';
+import { Plus, Copy, Trash2, Pencil, Film, Loader2, Upload, Package, AlertTriangle, FileJson, FolderOpen, Info } from 'lucide-react';
+import {
+  getProjectSummaries,
+  releaseProjectSummaries,
+  loadProject,
+  releaseProjectMedia,
+  renameProject,
+  duplicateProject,
+  deleteProject,
+  getQuarantinedProjects,
+  discardQuarantinedProject,
+  getNewerVersionProjects,
+  ProjectSummary,
+  QuarantinedProject,
+  NewerVersionProject,
+  OpenProjectSession,
+} from '../services/storageService';
+import { downloadProjectBundle, importProjectBundle, PROJECT_BUNDLE_EXTENSION } from '../services/projectBundle';
+import { formatDuration } from '../services/timecode';
+
+interface ProjectBrowserProps {
+  onOpenProject: (projectId: string) => void;
+  onCreateProject: () => void;
+  unclosedSession: OpenProjectSession | null;
+  onReopenUnclosed: (projectId: string) => void;
+  onDismissUnclosed: () => void;
+}
+
+export const ProjectBrowser: React.FC<ProjectBrowserProps> = ({
+  onOpenProject,
+  onCreateProject,
+  unclosedSession,
+  onReopenUnclosed,
+  onDismissUnclosed,
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [quarantined, setQuarantined] = useState<QuarantinedProject[]>([]);
+  const [newerVersion, setNewerVersion] = useState<NewerVersionProject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+        setProjects(await getProjectSummaries());
+        // Listing projects is what quarantines unreadable ones, so this has to come second
+        setQuarantined(await getQuarantinedProjects());
+        setNewerVersion(await getNewerVersionProjects());
+    } catch (e) {
+        console.error("Failed to list projects", e);
+    } finally {
+        setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Revoke poster URLs once a list is replaced or the browser closes
+  useEffect(() => () => releaseProjectSummaries(projects), [projects]);
+
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    try {
+        await action();
+    } catch (e) {
+        console.error(failureMessage, e);
+        alert(failureMessage);
+    }
+    await refresh();
+  };
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const commitRename = () => {
+    const id = renamingId;
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!id || !name) return;
+    runAction(() => renameProject(id, name), "Failed to rename project.");
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    runAction(() => deleteProject(project.id), "Failed to delete project.");
+  };
+
+  const handleDeleteNewerVersion = (entry: NewerVersionProject) => {
+    if (!confirm(`Delete "${entry.name}"? This cannot be undone.`)) return;
+    runAction(() => deleteProject(entry.id), "Failed to delete project.");
+  };
+
+  // The raw record, so it can be inspected or repaired by hand
+  const handleDownloadQuarantined = (entry: QuarantinedProject) => {
+    const blob = new Blob([JSON.stringify(entry.record, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${entry.name} (unreadable).json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleDiscardQuarantined = (entry: QuarantinedProject) => {
+    if (!confirm(`Discard "${entry.name}" and any media only it uses? This cannot be undone.`)) return;
+    runAction(() => discardQuarantinedProject(entry.id), "Failed to discard project.");
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    try {
+        await importProjectBundle(file);
+    } catch (err) {
+        console.error("Failed to import project", err);
+        alert(err instanceof Error ? err.message : "Failed to import project.");
+    } finally {
+        setIsImporting(false);
+    }
+    await refresh();
+  };
+
+  const handleExport = (project: ProjectSummary) => {
+    runAction(async () => {
+        const loaded = await loadProject(project.id);
+        if (!loaded) throw new Error("Project not found.");
+        try {
+            await downloadProjectBundle(loaded);
+        } finally {
+            releaseProjectMedia(loaded);
+        }
+    }, "Failed to export project.");
+  };
+
+  // Only offered while the project still exists. Autosave already wrote its edits to the project itself,
+  // so reopening it picks up where it left off.
+  const unclosedProject = unclosedSession && projects.find(p => p.id === unclosedSession.projectId);
+
+  return (
+    <div className="h-screen bg-black text-white font-sans overflow-y-auto">
+      <header className="h-12 border-b border-zinc-800 flex items-center justify-between px-4 bg-zinc-900">
+          <div className="flex items-center gap-2">
+              <div className="w-6 h-6 bg-gradient-to-tr from-blue-500 to-purple-600 rounded-md"></div>
+              <h1 className="font-bold text-sm tracking-wide">VN Clone <span className="text-zinc-500 font-normal">| Projects</span></h1>
+          </div>
+          <div className="flex items-center gap-2">
+              <input
+                  ref={importInputRef}
+                  type="file"
+                  accept={`${PROJECT_BUNDLE_EXTENSION},.zip`}
+                  className="hidden"
+                  onChange={handleImport}
+              />
+              <Button variant="secondary" size="sm" onClick={() => importInputRef.current?.click()} disabled={isImporting}>
+                  {isImporting ? <Loader2 size={14} className="mr-2 animate-spin"/> : <Upload size={14} className="mr-2"/>} Import Project
+              </Button>
+              <Button size="sm" onClick={onCreateProject}>
+                  <Plus size={14} className="mr-2"/> New Project
+              </Button>
+          </div>
+      </header>
+
+      <div className="max-w-5xl mx-auto p-6">
+        {unclosedProject && (
+            <div className="mb-6 bg-blue-950/40 border border-blue-800/60 rounded-lg p-4 flex items-center gap-3">
+                <FolderOpen size={18} className="text-blue-400 shrink-0" />
+                <div className="flex-1 min-w-0 text-sm">
+                    <p className="text-zinc-200">"{unclosedProject.name}" was still open when the editor closed.</p>
+                    <p className="text-xs text-zinc-500 mt-1">Its changes were autosaved up to {new Date(unclosedProject.lastModified).toLocaleString()}. Reopen it to carry on.</p>
+                </div>
+                <Button size="sm" onClick={() => onReopenUnclosed(unclosedProject.id)}>Reopen</Button>
+                <Button variant="ghost" size="sm" onClick={onDismissUnclosed}>Dismiss</Button>
+            </div>
+        )}
+        {newerVersion.length > 0 && (
+            <div className="mb-6 bg-zinc-900 border border-zinc-700 rounded-lg p-4 flex items-start gap-3">
+                <Info size={18} className="text-zinc-400 shrink-0" />
+                <div className="flex-1 min-w-0 text-sm">
+                    <p className="text-zinc-200">
+                        {newerVersion.length === 1
+                            ? '1 project was saved by a newer version of the editor'
+                            : `${newerVersion.length} projects were saved by a newer version of the editor`}
+                    </p>
+                    <p className="text-xs text-zinc-500 mt-1">Nothing was changed. Update the editor to open {newerVersion.length === 1 ? 'it' : 'them'}.</p>
+                    <div className="mt-3 space-y-2">
+                        {newerVersion.map(entry => (
+                            <div key={entry.id} className="flex items-center gap-3 bg-zinc-950/60 rounded p-2">
+                                <p className="flex-1 min-w-0 text-sm text-zinc-200 truncate">{entry.name}</p>
+                                <Button variant="danger" size="sm" className="px-2" onClick={() => handleDeleteNewerVersion(entry)} title="Delete">
+                                    <Trash2 size={14} />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        )}
+        {quarantined.length > 0 && (
+            <div className="mb-6 bg-amber-950/40 border border-amber-800/60 rounded-lg p-4">
+                <div className="flex items-center gap-2 text-sm text-amber-300 font-medium">
+                    <AlertTriangle size={16} />
+                    {quarantined.length === 1
+                        ? '1 project could not be read and was set aside'
+                        : `${quarantined.length} projects could not be read and were set aside`}
+                </div>
+                <div className="mt-3 space-y-2">
+                    {quarantined.map(entry => (
+                        <div key={entry.id} className="flex items-start gap-3 bg-zinc-950/60 rounded p-2">
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm text-zinc-200 truncate">{entry.name}</p>
+                                <p className="text-xs text-zinc-500 whitespace-pre-wrap mt-1">{entry.error}</p>
+                            </div>
+                            <Button variant="ghost" size="sm" className="px-2" onClick={() => handleDownloadQuarantined(entry)} title="Download Raw Data">
+                                <FileJson size={14} />
+                            </Button>
+                            <Button variant="danger" size="sm" className="px-2" onClick={() => handleDiscardQuarantined(entry)} title="Discard">
+                                <Trash2 size={14} />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+        {isLoading ? (
+            <div className="flex justify-center mt-20 text-zinc-500">
+                <Loader2 className="animate-spin" size={24} />
+            </div>
+        ) : projects.length === 0 ? (
+            <div className="text-center mt-20 text-zinc-600 text-sm">
+                No saved projects yet. Create one to start editing.
+            </div>
+        ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                {projects.map(project => (
+                    <div key={project.id} className="group bg-zinc-900 border border-zinc-800 hover:border-zinc-600 rounded-lg overflow-hidden transition-colors">
+                        <button
+                            className="w-full aspect-video bg-zinc-950 flex items-center justify-center overflow-hidden"
+                            onClick={() => onOpenProject(project.id)}
+                            title="Open Project"
+                        >
+                            {project.posterUrl ? (
+                                <img src={project.posterUrl} alt={project.name} className="w-full h-full object-cover" />
+                            ) : (
+                                <Film size={24} className="text-zinc-700" />
+                            )}
+                        </button>
+                        <div className="p-3">
+                            {renamingId === project.id ? (
+                                <input
+                                    autoFocus
+                                    className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                    value={renameValue}
+                                    onChange={(e) => setRenameValue(e.target.value)}
+                                    onBlur={commitRename}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') commitRename();
+                                        if (e.key === 'Escape') setRenamingId(null);
+                                    }}
+                                />
+                            ) : (
+                                <p className="text-sm font-medium text-zinc-200 truncate">{project.name}</p>
+                            )}
+                            <p className="text-xs text-zinc-500 mt-1">
+                                {new Date(project.lastModified).toLocaleString()} · {formatDuration(project.duration)}
+                            </p>
+                            <div className="flex gap-1 mt-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <Button variant="ghost" size="sm" className="px-2" onClick={() => startRename(project)} title="Rename">
+                                    <Pencil size={14} />
+                                </Button>
+                                <Button variant="ghost" size="sm" className="px-2" onClick={() => runAction(() => duplicateProject(project.id), "Failed to duplicate project.")} title="Duplicate">
+                                    <Copy size={14} />
+                                </Button>
+                                <Button variant="ghost" size="sm" className="px-2" onClick={() => handleExport(project)} title="Export Project Bundle">
+                                    <Package size={14} />
+                                </Button>
+                                <Button variant="danger" size="sm" className="px-2" onClick={() => handleDelete(project)} title="Delete">
+                                    <Trash2 size={14} />
+                                </Button>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { ProjectSettings } from '../types';
+import { Button } from './Button';
+import { Settings2 } from 'lucide-react';
+import { PROJECT_FRAME_RATES, PROJECT_RESOLUTIONS } from '../services/projectService';
+
+interface ProjectSettingsDialogProps {
+  settings: ProjectSettings;
+  onSave: (settings: ProjectSettings) => void;
+  onClose: () => void;
+}
+
+const MIN_DIMENSION = 16;
+const MAX_DIMENSION = 4096;
+
+const selectClass = "mt-1 w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+// Encoders want even dimensions
+const toDimension = (value: string) =>
+  Math.min(Math.max(Math.round((parseInt(value, 10) || 0) / 2) * 2, MIN_DIMENSION), MAX_DIMENSION);
+
+export const ProjectSettingsDialog: React.FC<ProjectSettingsDialogProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProjectSettings>(settings);
+  const presetIndex = PROJECT_RESOLUTIONS.findIndex(r => r.width === draft.width && r.height === draft.height);
+  const frameRateChanged = draft.frameRate !== settings.frameRate;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm">
+        <div className="bg-zinc-900 border border-zinc-700 rounded-xl p-6 w-full max-w-sm shadow-2xl">
+            <h3 className="text-lg font-bold text-white mb-2 flex items-center gap-2">
+                <Settings2 className="text-blue-500" size={18} />
+                Project Settings
+            </h3>
+            <p className="text-zinc-400 text-sm mb-4">
+                The frame the project is edited and exported at.
+            </p>
+
+            <div className="grid grid-cols-2 gap-3 mb-3">
+                <label className="text-xs text-zinc-400 col-span-2">
+                    Resolution
+                    <select
+                        className={selectClass}
+                        value={presetIndex}
+                        onChange={(e) => {
+                            const preset = PROJECT_RESOLUTIONS[Number(e.target.value)];
+                            if (preset) setDraft({ ...draft, width: preset.width, height: preset.height });
+                        }}
+                    >
+                        {PROJECT_RESOLUTIONS.map((r, i) => (
+                            <option key={r.label} value={i}>{r.label} ({r.width}×{r.height})</option>
+                        ))}
+                        {presetIndex === -1 && <option value={-1}>Custom</option>}
+                    </select>
+                </label>
+                <label className="text-xs text-zinc-400">
+                    Width
+                    <input
+                        key={`w-${draft.width}`}
+                        type="number"
+                        step={2}
+                        defaultValue={draft.width}
+                        className={selectClass}
+                        onBlur={(e) => setDraft({ ...draft, width: toDimension(e.target.value) })}
+                    />
+                </label>
+                <label className="text-xs text-zinc-400">
+                    Height
+                    <input
+                        key={`h-${draft.height}`}
+                        type="number"
+                        step={2}
+                        defaultValue={draft.height}
+                        className={selectClass}
+                        onBlur={(e) => setDraft({ ...draft, height: toDimension(e.target.value) })}
+                    />
+                </label>
+                <label className="text-xs text-zinc-400 col-span-2">
+                    Frame Rate
+                    <select
+                        className={selectClass}
+                        value={draft.frameRate}
+                        onChange={(e) => setDraft({ ...draft, frameRate: Number(e.target.value) })}
+                    >
+                        {PROJECT_FRAME_RATES.map(fps => (
+                            <option key={fps} value={fps}>{fps} fps</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {frameRateChanged && (
+                <p className="text-amber-400 text-xs mb-3">
+                    Every clip will move to the nearest frame at {draft.frameRate} fps.
+                </p>
+            )}
+
+            <div className="flex justify-end gap-2 mt-4">
+                <Button variant="ghost" onClick={onClose}>Cancel</Button>
+                <Button onClick={() => onSave(draft)}>Save</Button>
+            </div>
+        </div>
+    </div>
+  );
+};
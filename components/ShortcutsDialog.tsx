@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './Button';
+import { Keyboard, Plus, X } from 'lucide-react';
+import { useShortcutBindings } from '../hooks/useShortcuts';
+import {
+  SHORTCUT_DEFINITIONS,
+  ShortcutAction,
+  assignCombo,
+  eventToCombo,
+  formatCombo,
+  removeCombo,
+  resetBindings,
+} from '../services/shortcutService';
+
+interface ShortcutsDialogProps {
+  onClose: () => void;
+}
+
+// The key being recorded: a new binding for the action, or a replacement for one of its combos
+interface Recording {
+  action: ShortcutAction;
+  replacing?: string;
+}
+
+const GROUPS = Array.from(new Set(Object.values(SHORTCUT_DEFINITIONS).map(d => d.group)));
+
+// Cheat sheet of every shortcut; click a key to rebind it
+export const ShortcutsDialog: React.FC<ShortcutsDialogProps> = ({ onClose }) => {
+  const bindings = useShortcutBindings();
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Captures the next key press before the editor's shortcuts see it; Escape cancels recording or closes
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!recording) {
+            if (e.key === 'Escape') onClose();
+            return;
+        }
+        e.preventDefault();
+        e.stopPropagation();
+        if (e.key === 'Escape') {
+            setRecording(null);
+            return;
+        }
+        const combo = eventToCombo(e);
+        if (!combo) return;
+        const previousOwner = assignCombo(recording.action, combo, recording.replacing);
+        setNotice(previousOwner ? `${formatCombo(combo)} was moved from "${SHORTCUT_DEFINITIONS[previousOwner].label}".` : null);
+        setRecording(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, onClose]);
+
+  const isRecording = (action: ShortcutAction, replacing?: string) =>
+    recording?.action === action && recording.replacing === replacing;
+
+  const keyClass = (active: boolean) =>
+    `px-1.5 h-6 min-w-6 rounded border font-mono text-[11px] transition-colors ${active ? 'border-blue-500 bg-blue-600/20 text-blue-300' : 'border-zinc-700 bg-zinc-800 text-zinc-200 hover:border-zinc-500'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm" onMouseDown={onClose}>
+        <div className="bg-zinc-900 border border-zinc-700 rounded-xl p-6 w-full max-w-lg max-h-full flex flex-col shadow-2xl" onMouseDown={(e) => e.stopPropagation()}>
+            <h3 className="text-lg font-bold text-white mb-2 flex items-center gap-2">
+                <Keyboard className="text-blue-500" size={18} />
+                Keyboard Shortcuts
+            </h3>
+            <p className="text-zinc-400 text-sm mb-4">
+                Click a key to change it, then press the new combination. Shortcuts are ignored while typing in a field.
+            </p>
+
+            <div className="overflow-y-auto -mx-2 px-2 space-y-4">
+                {GROUPS.map(group => (
+                    <div key={group}>
+                        <h4 className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider mb-1">{group}</h4>
+                        {(Object.keys(SHORTCUT_DEFINITIONS) as ShortcutAction[])
+                            .filter(action => SHORTCUT_DEFINITIONS[action].group === group)
+                            .map(action => (
+                                <div key={action} className="flex items-center justify-between gap-4 py-1 text-sm">
+                                    <span className="text-zinc-300">{SHORTCUT_DEFINITIONS[action].label}</span>
+                                    <div className="flex items-center gap-1 flex-wrap justify-end">
+                                        {bindings[action].map(combo => (
+                                            <span key={combo} className="group relative">
+                                                <button className={keyClass(isRecording(action, combo))} onClick={() => setRecording({ action, replacing: combo })}>
+                                                    {isRecording(action, combo) ? 'Press keys…' : formatCombo(combo)}
+                                                </button>
+                                                <button
+                                                    className="absolute -top-1.5 -right-1.5 hidden group-hover:flex w-3.5 h-3.5 items-center justify-center rounded-full bg-zinc-600 text-white hover:bg-red-600"
+                                                    onClick={() => removeCombo(action, combo)}
+                                                    title="Remove"
+                                                >
+                                                    <X size={8} />
+                                                </button>
+                                            </span>
+                                        ))}
+                                        <button className={keyClass(isRecording(action))} onClick={() => setRecording({ action })} title="Add Key">
+                                            {isRecording(action) ? 'Press keys…' : <Plus size={10} />}
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                    </div>
+                ))}
+            </div>
+
+            {notice && <p className="text-amber-400 text-xs mt-4">{notice}</p>}
+
+            <div className="flex justify-between gap-2 mt-4">
+                <Button variant="ghost" onClick={() => { resetBindings(); setNotice(null); }}>Reset to Defaults</Button>
+                <Button onClick={onClose}>Done</Button>
+            </div>
+        </div>
+    </div>
+  );
+};
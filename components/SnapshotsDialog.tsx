@@ -0,0 +1,112 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from './Button';
+import { History, Loader2, RotateCcw, Trash2, Camera } from 'lucide-react';
+import { getSnapshots, deleteSnapshot, ProjectSnapshot } from '../services/storageService';
+
+interface SnapshotsDialogProps {
+  projectId: string;
+  onTakeSnapshot: (name: string) => Promise<void>;
+  onRestore: (snapshotId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export const SnapshotsDialog: React.FC<SnapshotsDialogProps> = ({ projectId, onTakeSnapshot, onRestore, onClose }) => {
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [name, setName] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+        setSnapshots(await getSnapshots(projectId));
+    } catch (e) {
+        console.error("Failed to list snapshots", e);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (action: () => Promise<void>, failureMessage: string) => {
+    setIsBusy(true);
+    try {
+        await action();
+    } catch (e) {
+        console.error(failureMessage, e);
+        alert(e instanceof Error ? e.message : failureMessage);
+    } finally {
+        setIsBusy(false);
+    }
+    await refresh();
+  };
+
+  const handleTake = () => {
+    const snapshotName = name.trim() || `Snapshot ${new Date().toLocaleString()}`;
+    run(async () => {
+        await onTakeSnapshot(snapshotName);
+        setName('');
+    }, "Failed to take snapshot.");
+  };
+
+  const handleDelete = (snapshot: ProjectSnapshot) => {
+    if (!confirm(`Delete the snapshot "${snapshot.name}"?`)) return;
+    run(() => deleteSnapshot(snapshot.id), "Failed to delete snapshot.");
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm">
+        <div className="bg-zinc-900 border border-zinc-700 rounded-xl p-6 w-full max-w-md shadow-2xl">
+            <h3 className="text-lg font-bold text-white mb-2 flex items-center gap-2">
+                <History className="text-blue-500" size={18} />
+                Versions
+            </h3>
+            <p className="text-zinc-400 text-sm mb-4">
+                Snapshots keep a named copy of the project. Restoring one can be undone.
+            </p>
+
+            <div className="flex gap-2 mb-4">
+                <input
+                    className="flex-1 bg-zinc-950 border border-zinc-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    placeholder="Snapshot name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter' && !isBusy) handleTake(); }}
+                />
+                <Button size="sm" onClick={handleTake} disabled={isBusy}>
+                    <Camera size={14} className="mr-2"/> Take Snapshot
+                </Button>
+            </div>
+
+            <div className="max-h-72 overflow-y-auto space-y-1">
+                {isLoading ? (
+                    <div className="flex justify-center py-6 text-zinc-500">
+                        <Loader2 className="animate-spin" size={18} />
+                    </div>
+                ) : snapshots.length === 0 ? (
+                    <p className="text-center py-6 text-zinc-600 text-sm">No snapshots yet.</p>
+                ) : snapshots.map(snapshot => (
+                    <div key={snapshot.id} className="flex items-center gap-2 bg-zinc-950 rounded-lg px-3 py-2">
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm text-zinc-200 truncate">{snapshot.name}</p>
+                            <p className="text-xs text-zinc-500">{new Date(snapshot.createdAt).toLocaleString()}</p>
+                        </div>
+                        <Button variant="ghost" size="sm" className="px-2" onClick={() => run(() => onRestore(snapshot.id), "Failed to restore snapshot.")} disabled={isBusy} title="Restore">
+                            <RotateCcw size={14} />
+                        </Button>
+                        <Button variant="danger" size="sm" className="px-2" onClick={() => handleDelete(snapshot)} disabled={isBusy} title="Delete">
+                            <Trash2 size={14} />
+                        </Button>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex justify-end mt-4">
+                <Button variant="ghost" onClick={onClose}>Close</Button>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { TextStyle, TextAlign, TextVerticalAlign } from '../types';
+import { Button } from './Button';
+import { REFERENCE_WIDTH } from '../services/compositor';
+import { DEFAULT_TEXT_STYLE, FONT_FAMILIES, SHOWN, drawStyledText, placeAtCenter } from '../services/textRenderer';
+import { Type, Bold, Italic, AlignLeft, AlignCenter, AlignRight, ArrowUpToLine, AlignVerticalJustifyCenter, ArrowDownToLine } from 'lucide-react';
+
+interface TextEditorDialogProps {
+  title: string;
+  initialText?: string;
+  initialStyle?: TextStyle;
+  onSave: (text: string, style: TextStyle) => void;
+  onClose: () => void;
+}
+
+const ALIGN_OPTIONS = [
+  { value: TextAlign.LEFT, icon: AlignLeft, label: 'Left' },
+  { value: TextAlign.CENTER, icon: AlignCenter, label: 'Center' },
+  { value: TextAlign.RIGHT, icon: AlignRight, label: 'Right' },
+];
+
+const VERTICAL_ALIGN_OPTIONS = [
+  { value: TextVerticalAlign.TOP, icon: ArrowUpToLine, label: 'Top' },
+  { value: TextVerticalAlign.MIDDLE, icon: AlignVerticalJustifyCenter, label: 'Middle' },
+  { value: TextVerticalAlign.BOTTOM, icon: ArrowDownToLine, label: 'Bottom' },
+];
+
+const inputClass = "bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500";
+const toggleClass = (active: boolean) =>
+  `p-1.5 rounded transition-colors ${active ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:bg-zinc-800'}`;
+
+export const TextEditorDialog: React.FC<TextEditorDialogProps> = ({ title, initialText = 'Hello World', initialStyle, onSave, onClose }) => {
+  const [text, setText] = useState(initialText);
+  const [style, setStyle] = useState<TextStyle>({ ...DEFAULT_TEXT_STYLE, ...initialStyle });
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  const update = (updates: Partial<TextStyle>) => setStyle(prev => ({ ...prev, ...updates }));
+
+  // Same renderer as the compositor, over a neutral background
+  useEffect(() => {
+    const canvas = previewRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.fillStyle = '#27272a';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    drawStyledText(ctx, text, style, style.color, SHOWN, canvas.width / REFERENCE_WIDTH, placeAtCenter(ctx));
+  }, [text, style]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm">
+        <div className="bg-zinc-900 border border-zinc-700 rounded-xl p-6 w-full max-w-2xl shadow-2xl">
+            <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                <Type className="text-emerald-400" size={18} />
+                {title}
+            </h3>
+
+            <canvas ref={previewRef} width={640} height={360} className="w-full aspect-video rounded-lg mb-4" />
+
+            <textarea
+                autoFocus
+                className="w-full bg-zinc-950 border border-zinc-700 rounded-lg p-3 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none mb-4 resize-none h-20"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+            />
+
+            <div className="grid grid-cols-2 gap-x-6 gap-y-3 text-xs text-zinc-400 mb-6">
+                <div className="flex items-center gap-2">
+                    <select className={`${inputClass} flex-1`} value={style.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })}>
+                        {FONT_FAMILIES.map(font => <option key={font.label} value={font.value}>{font.label}</option>)}
+                    </select>
+                    <input
+                        type="number"
+                        min={8}
+                        max={200}
+                        className={`${inputClass} w-16`}
+                        value={style.fontSize}
+                        onChange={(e) => update({ fontSize: Math.max(8, parseFloat(e.target.value) || 0) })}
+                        title="Font Size"
+                    />
+                    <button className={toggleClass(style.bold)} onClick={() => update({ bold: !style.bold })} title="Bold"><Bold size={14} /></button>
+                    <button className={toggleClass(style.italic)} onClick={() => update({ italic: !style.italic })} title="Italic"><Italic size={14} /></button>
+                </div>
+
+                <div className="flex items-center gap-1">
+                    {ALIGN_OPTIONS.map(({ value, icon: Icon, label }) => (
+                        <button key={value} className={toggleClass(style.align === value)} onClick={() => update({ align: value })} title={`Align ${label}`}>
+                            <Icon size={14} />
+                        </button>
+                    ))}
+                    <div className="w-px h-5 bg-zinc-700 mx-1" />
+                    {VERTICAL_ALIGN_OPTIONS.map(({ value, icon: Icon, label }) => (
+                        <button key={value} className={toggleClass(style.verticalAlign === value)} onClick={() => update({ verticalAlign: value })} title={`Position ${label}`}>
+                            <Icon size={14} />
+                        </button>
+                    ))}
+                </div>
+
+                <label className="flex items-center justify-between">
+                    Color
+                    <input type="color" value={style.color} onChange={(e) => update({ color: e.target.value })} className="w-10 h-6 bg-transparent" />
+                </label>
+
+                <label className="flex items-center justify-between gap-2">
+                    Outline
+                    <span className="flex items-center gap-2">
+                        <input type="range" min={0} max={10} step={0.5} value={style.strokeWidth} onChange={(e) => update({ strokeWidth: parseFloat(e.target.value) })} />
+                        <input type="color" value={style.strokeColor} onChange={(e) => update({ strokeColor: e.target.value })} className="w-10 h-6 bg-transparent" />
+                    </span>
+                </label>
+
+                <label className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-2">
+                        <input type="checkbox" checked={style.shadow} onChange={(e) => update({ shadow: e.target.checked })} />
+                        Shadow
+                    </span>
+                    <span className="flex items-center gap-2">
+                        <input type="range" min={0} max={20} step={1} value={style.shadowBlur} disabled={!style.shadow} onChange={(e) => update({ shadowBlur: parseFloat(e.target.value) })} />
+                        <input type="color" value={style.shadowColor} disabled={!style.shadow} onChange={(e) => update({ shadowColor: e.target.value })} className="w-10 h-6 bg-transparent" />
+                    </span>
+                </label>
+
+                <label className="flex items-center justify-between gap-2">
+                    Background
+                    <span className="flex items-center gap-2">
+                        <input type="range" min={0} max={1} step={0.05} value={style.backgroundOpacity} onChange={(e) => update({ backgroundOpacity: parseFloat(e.target.value) })} />
+                        <input type="color" value={style.backgroundColor} onChange={(e) => update({ backgroundColor: e.target.value })} className="w-10 h-6 bg-transparent" />
+                    </span>
+                </label>
+            </div>
+
+            <div className="flex justify-end gap-2">
+                <Button variant="ghost" onClick={onClose}>Cancel</Button>
+                <Button onClick={() => onSave(text, style)} disabled={!text.trim()}>Save</Button>
+            </div>
+        </div>
+    </div>
+  );
+};
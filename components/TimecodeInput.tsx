@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { formatTimecode, parseTimecode } from '../services/timecode';
+
+interface TimecodeInputProps {
+  time: number;
+  frameRate: number;
+  onChange: (time: number) => void;
+  className?: string;
+}
+
+// Shows a time as SMPTE timecode; click to type one and Enter to jump there
+export const TimecodeInput: React.FC<TimecodeInputProps> = ({ time, frameRate, onChange, className = '' }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [invalid, setInvalid] = useState(false);
+
+  // False while the text isn't a time, so the field stays open for correction
+  const commitDraft = (): boolean => {
+    const parsed = draft === null ? null : parseTimecode(draft, frameRate);
+    if (parsed === null) {
+        setInvalid(true);
+        return false;
+    }
+    onChange(parsed);
+    return true;
+  };
+
+  return (
+    <input
+        type="text"
+        spellCheck={false}
+        value={draft ?? formatTimecode(time, frameRate)}
+        className={`bg-transparent font-mono text-center rounded focus:outline-none focus:bg-zinc-950 focus:ring-1 ${invalid ? 'focus:ring-red-500' : 'focus:ring-blue-500'} ${className}`}
+        title="Timecode (HH:MM:SS:FF). Type a time and press Enter to jump there."
+        onFocus={(e) => {
+            setDraft(formatTimecode(time, frameRate));
+            e.currentTarget.select();
+        }}
+        onChange={(e) => {
+            setDraft(e.target.value);
+            setInvalid(false);
+        }}
+        onBlur={() => {
+            setDraft(null);
+            setInvalid(false);
+        }}
+        onKeyDown={(e) => {
+            if (e.key === 'Enter' && commitDraft()) e.currentTarget.blur();
+            if (e.key === 'Escape') e.currentTarget.blur();
+        }}
+    />
+  );
+};
@@ -1,111 +1,305 @@
-import React, { useRef, useEffect, useState } from 'react';
-import { TimelineClip, MediaAsset, MediaType } from '../types';
-import { Video, Type, Music, Layers } from 'lucide-react';
+import React, { useRef, useEffect, useLayoutEffect, useState } from 'react';
+import { TimelineClip, MediaAsset, MediaType, Track, TrackKind, Transition, TransitionType, SubtitleFormat } from '../types';
+import { isTrackCompatible, DEFAULT_TRANSITION_DURATION, TRANSITION_DRAG_TYPE, TRANSITION_LABELS } from '../services/projectService';
+import { getPreviousAdjacentClip, getTransitionDuration } from '../services/timelineOps';
+import { getKeyframeTimes, shiftKeyframes } from '../services/keyframes';
+import { getCueDisplayText } from '../services/subtitleService';
+import { hasAudio } from '../services/audioMixer';
+import { floorToFrame, snapToFrame } from '../services/timecode';
+import { getClipSpeed, getRangeMediaStart, getTrimHeadroom, isRetimed } from '../services/clipSpeed';
+import { ShortcutAction, getShortcutHint } from '../services/shortcutService';
+import { useShortcutBindings, useShortcuts } from '../hooks/useShortcuts';
+import { ClipMediaPreview } from './ClipMediaPreview';
+import { Video, Type, Music, Plus, Eye, EyeOff, Lock, Unlock, Volume2, VolumeX, ChevronUp, ChevronDown, X, Blend, Trash2, Captions, ZoomIn, ZoomOut, FoldHorizontal } from 'lucide-react';
 
 interface TimelineProps {
+  tracks: Track[]; // Already sorted top to bottom
   clips: TimelineClip[];
   assets: MediaAsset[];
   currentTime: number;
+  isPlaying: boolean; // The view follows the playhead while playing
+  frameRate: number; // Drags and trims move in whole frames
   totalDuration: number;
   onSeek: (time: number) => void;
-  onClipSelect: (clipId: string | null) => void;
-  selectedClipId: string | null;
+  // Selected clips move and trim together
+  selectedClipIds: string[];
+  onSelectClips: (clipIds: string[]) => void;
   onDeleteClip: (clipId: string) => void;
-  onUpdateClip: (clipId: string, updates: Partial<TimelineClip>) => void;
+  onUpdateClips: (updates: Record<string, Partial<TimelineClip>>) => void;
+  // Bracket a drag so all of its updates become a single undo step
+  onEditStart: (label: string) => void;
+  onEditEnd: (clipIds: string[]) => void;
+  onAddTrack: (kind: TrackKind) => void;
+  onUpdateTrack: (trackId: string, updates: Partial<Track>) => void;
+  onDeleteTrack: (trackId: string) => void;
+  onMoveTrack: (trackId: string, direction: -1 | 1) => void;
+  // Transitions belong to the incoming clip of a cut; undefined removes it
+  onSetTransition: (clipId: string, transition: Transition | undefined) => void;
+  onAddCue: (trackId: string) => void;
+  onExportSubtitles: (trackId: string, format: SubtitleFormat) => void;
 }
 
-const PIXELS_PER_SECOND = 40;
+const DEFAULT_PIXELS_PER_SECOND = 40;
+const MIN_PIXELS_PER_SECOND = 0.5;
+const MAX_PIXELS_PER_SECOND = 400;
+const ZOOM_BUTTON_FACTOR = 1.5;
+const WHEEL_ZOOM_SPEED = 0.01;
+// Space kept between the playhead and the view edge when following playback or fitting
+const FOLLOW_MARGIN_PX = 48;
+const MIN_RULER_LABEL_SPACING = 80;
+const MIN_RULER_TICK_SPACING = 6;
+// Labeled ruler intervals in seconds, each with the number of minor ticks it is divided into
+const RULER_STEPS: [number, number][] = [
+  [0.1, 5], [0.25, 5], [0.5, 5], [1, 4], [2, 4], [5, 5], [10, 5], [15, 3], [30, 6],
+  [60, 4], [120, 4], [300, 5], [600, 5], [900, 3], [1800, 6], [3600, 4],
+];
 const MIN_CLIP_DURATION = 0.5;
 const SNAP_THRESHOLD_PX = 15;
 const TRACK_HEIGHT = 56;
-const HEADER_WIDTH = 100;
+const CLIP_HEIGHT = TRACK_HEIGHT - 10; // Inset by top-1/bottom-1 and the border
+const RULER_HEIGHT = 32;
+const HEADER_WIDTH = 168;
+const ZOOM_BAR_HEIGHT = 32;
+const CUT_DROP_ZONE_WIDTH = 16;
+const FADE_HANDLE_SIZE = 8;
+// A press that moves less than this is a click, not a marquee
+const MARQUEE_THRESHOLD_PX = 4;
+
+type DragHandle = 'left' | 'right' | 'body' | 'fadeIn' | 'fadeOut';
+
+const isTimedMedia = (type: MediaType) => type === MediaType.VIDEO || type === MediaType.AUDIO;
+
+// The shortest clip, rounded up to whole frames
+const getMinClipDuration = (frameRate: number) => Math.ceil(MIN_CLIP_DURATION * frameRate) / frameRate;
+
+// Moves a clip's start edge by `delta` (whole frames), keeping the same media under the rest of the clip
+const trimStart = (clip: TimelineClip, asset: MediaAsset, delta: number, frameRate: number): Partial<TimelineClip> => {
+  const minDuration = getMinClipDuration(frameRate);
+
+  // Constraints: only real media runs out at its start
+  if (isTimedMedia(asset.type)) delta = Math.max(delta, -floorToFrame(getTrimHeadroom(clip, asset.duration).start, frameRate));
+  delta = Math.min(delta, clip.duration - minDuration);
+
+  const duration = clip.duration - delta;
+  return {
+      startOffset: clip.startOffset + delta,
+      mediaStart: getRangeMediaStart(clip, delta, duration),
+      duration,
+      // Keys are relative to the clip start; keep them on the same media frames
+      keyframes: shiftKeyframes(clip.keyframes, -delta)
+  };
+};
+
+// Moves a clip's end edge by `delta` (whole frames), no further than the last whole frame of its media
+// at the clip's speed
+const trimEnd = (clip: TimelineClip, asset: MediaAsset, delta: number, frameRate: number): Partial<TimelineClip> => {
+  let duration = Math.max(clip.duration + delta, getMinClipDuration(frameRate));
+  if (isTimedMedia(asset.type)) {
+      duration = Math.min(duration, clip.duration + floorToFrame(getTrimHeadroom(clip, asset.duration).end, frameRate));
+  }
+  return { duration, mediaStart: getRangeMediaStart(clip, 0, duration) };
+};
+
+const clampZoom = (pixelsPerSecond: number) =>
+  Math.min(Math.max(pixelsPerSecond, MIN_PIXELS_PER_SECOND), MAX_PIXELS_PER_SECOND);
+
+// Ruler labels only show the precision the current step needs
+const formatRulerTime = (time: number, step: number) => {
+  const seconds = Math.round(time * 1000) / 1000; // Tick positions carry float noise
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor(seconds / 60) % 60;
+  const decimals = step >= 1 ? 0 : step === 0.25 ? 2 : 1;
+  const secs = (seconds % 60).toFixed(decimals).padStart(decimals > 0 ? 3 + decimals : 2, '0');
+  return `${hours > 0 ? `${hours}:` : ''}${String(minutes).padStart(2, '0')}:${secs}`;
+};
 
 // Use explicit classes to ensure Tailwind generates them (interpolation doesn't work well with JIT/CDN)
-const TRACK_DEFINITIONS = [
-    { 
-        id: 2, 
-        label: 'Text', 
-        icon: Type, 
-        iconClass: 'text-emerald-400', 
-        clipClass: 'bg-emerald-900/40 border-emerald-800/50' 
+const TRACK_KIND_STYLES: Record<TrackKind, { icon: typeof Video; iconClass: string; clipClass: string }> = {
+    [TrackKind.TEXT]: {
+        icon: Type,
+        iconClass: 'text-emerald-400',
+        clipClass: 'bg-emerald-900/40 border-emerald-800/50'
     },
-    { 
-        id: 1, 
-        label: 'PIP', 
-        icon: Layers, 
-        iconClass: 'text-purple-400', 
-        clipClass: 'bg-purple-900/40 border-purple-800/50' 
+    [TrackKind.VIDEO]: {
+        icon: Video,
+        iconClass: 'text-blue-400',
+        clipClass: 'bg-blue-900/40 border-blue-800/50'
     },
-    { 
-        id: 0, 
-        label: 'Main', 
-        icon: Video, 
-        iconClass: 'text-blue-400', 
-        clipClass: 'bg-blue-900/40 border-blue-800/50' 
+    [TrackKind.AUDIO]: {
+        icon: Music,
+        iconClass: 'text-orange-400',
+        clipClass: 'bg-orange-900/40 border-orange-800/50'
     },
-    { 
-        id: 3, 
-        label: 'Audio', 
-        icon: Music, 
-        iconClass: 'text-orange-400', 
-        clipClass: 'bg-orange-900/40 border-orange-800/50' 
+    [TrackKind.SUBTITLE]: {
+        icon: Captions,
+        iconClass: 'text-sky-400',
+        clipClass: 'bg-sky-900/40 border-sky-800/50'
     },
-];
+};
 
 export const Timeline: React.FC<TimelineProps> = ({
+  tracks,
   clips,
   assets,
   currentTime,
+  isPlaying,
+  frameRate,
   totalDuration,
   onSeek,
-  onClipSelect,
-  selectedClipId,
+  selectedClipIds,
+  onSelectClips,
   onDeleteClip,
-  onUpdateClip
+  onUpdateClips,
+  onEditStart,
+  onEditEnd,
+  onAddTrack,
+  onUpdateTrack,
+  onDeleteTrack,
+  onMoveTrack,
+  onSetTransition,
+  onAddCue,
+  onExportSubtitles
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const trackHeadersRef = useRef<HTMLDivElement>(null);
+  const [renamingTrackId, setRenamingTrackId] = useState<string | null>(null);
   const [isDraggingHeader, setIsDraggingHeader] = useState(false);
   const [snapLineX, setSnapLineX] = useState<number | null>(null);
+  // Track under the cursor while moving a clip; invalid when the clip's media doesn't belong there
+  const [dropTarget, setDropTarget] = useState<{ trackId: string; valid: boolean } | null>(null);
+  // Incoming clip of the cut a transition is being dragged over
+  const [transitionDropClipId, setTransitionDropClipId] = useState<string | null>(null);
+  // Transition popover, anchored in viewport coordinates so the scroll area can't clip it
+  const [editingTransition, setEditingTransition] = useState<{ clipId: string; x: number; y: number } | null>(null);
+  const [editingCueClipId, setEditingCueClipId] = useState<string | null>(null);
+  const [pixelsPerSecond, setPixelsPerSecond] = useState(DEFAULT_PIXELS_PER_SECOND);
+  // Visible part of the content, so the ruler only draws the ticks on screen
+  const [viewport, setViewport] = useState({ scrollLeft: 0, width: 0 });
+  // Latest zoom and the scroll position it still has to apply, for events arriving between renders
+  const zoomRef = useRef({ pixelsPerSecond, pendingScrollLeft: null as number | null });
 
   const [dragState, setDragState] = useState<{
     clipId: string;
-    handle: 'left' | 'right' | 'body';
+    handle: DragHandle;
     startX: number;
     originalClip: TimelineClip;
+    // Every clip the drag moves or trims, as they were when it started
+    originals: TimelineClip[];
+    // Pressing one clip of a selection without dragging selects just that clip
+    collapseSelection: boolean;
   } | null>(null);
+  const dragMovedRef = useRef(false);
+  // Rubber band selection in content coordinates, measured from the top of the first track.
+  // Shift/Ctrl adds to the selection it started with.
+  const [marquee, setMarquee] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  const marqueeStartRef = useRef({ additive: false, base: [] as string[] });
+  // The click that ends a marquee shouldn't also seek
+  const suppressClickRef = useRef(false);
+
+  // --- Zoom ---
+
+  // Zooms keeping the time under `anchorX` (content-relative pixels) in place; defaults to the playhead, or the middle if it is off screen
+  const zoomTo = (next: number, anchorX?: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const current = zoomRef.current;
+    const scrollLeft = current.pendingScrollLeft ?? container.scrollLeft;
+    const playheadX = currentTime * current.pixelsPerSecond - scrollLeft;
+    const anchor = anchorX ?? (playheadX >= 0 && playheadX <= container.clientWidth ? playheadX : container.clientWidth / 2);
+    const anchorTime = (scrollLeft + anchor) / current.pixelsPerSecond;
+
+    const pixels = clampZoom(next);
+    zoomRef.current = { pixelsPerSecond: pixels, pendingScrollLeft: Math.max(0, anchorTime * pixels - anchor) };
+    setPixelsPerSecond(pixels);
+  };
 
-  // Auto-scroll
+  const fitToProject = () => {
+    const container = containerRef.current;
+    if (!container) return;
+    const end = clips.reduce((max, c) => Math.max(max, c.startOffset + c.duration), 0);
+    const pixels = clampZoom((container.clientWidth - FOLLOW_MARGIN_PX) / Math.max(end, 1));
+    zoomRef.current = { pixelsPerSecond: pixels, pendingScrollLeft: 0 };
+    setPixelsPerSecond(pixels);
+  };
+
+  // Apply the anchored scroll once the content has its new width
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const { pendingScrollLeft } = zoomRef.current;
+    if (!container || pendingScrollLeft === null) return;
+    container.scrollLeft = pendingScrollLeft;
+    zoomRef.current.pendingScrollLeft = null;
+    setViewport({ scrollLeft: container.scrollLeft, width: container.clientWidth });
+  }, [pixelsPerSecond]);
+
+  // Ctrl/Cmd + wheel (and trackpad pinch, which browsers report the same way) zooms at the cursor.
+  // Registered natively because React's wheel listener is passive and can't stop the page zooming.
+  const zoomToRef = useRef(zoomTo);
+  zoomToRef.current = zoomTo;
   useEffect(() => {
-    if (containerRef.current && !isDraggingHeader && !dragState) {
-      const playheadPos = currentTime * PIXELS_PER_SECOND;
-      const container = containerRef.current;
-      const scrollPos = playheadPos - (container.clientWidth / 2) + HEADER_WIDTH;
-      
-      if (Math.abs(container.scrollLeft - scrollPos) > 200) {
-         // Only auto-scroll if significantly off to avoid fighting user
-         // Simplified: Just keep it roughly in view
-      }
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+        if (!(e.ctrlKey || e.metaKey)) return;
+        e.preventDefault();
+        const rect = container.getBoundingClientRect();
+        zoomToRef.current(zoomRef.current.pixelsPerSecond * Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), e.clientX - rect.left);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const shortcutBindings = useShortcutBindings();
+  useShortcuts({
+    [ShortcutAction.ZOOM_IN]: () => zoomTo(zoomRef.current.pixelsPerSecond * ZOOM_BUTTON_FACTOR),
+    [ShortcutAction.ZOOM_OUT]: () => zoomTo(zoomRef.current.pixelsPerSecond / ZOOM_BUTTON_FACTOR),
+    [ShortcutAction.ZOOM_FIT]: fitToProject,
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewport({ scrollLeft: container.scrollLeft, width: container.clientWidth }));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Follow the playhead during playback, a page at a time so the view isn't constantly moving
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !isPlaying || isDraggingHeader || dragState) return;
+    const playheadX = currentTime * pixelsPerSecond;
+    if (playheadX < container.scrollLeft || playheadX > container.scrollLeft + container.clientWidth - FOLLOW_MARGIN_PX) {
+      container.scrollLeft = Math.max(0, playheadX - FOLLOW_MARGIN_PX);
     }
-  }, [currentTime, isDraggingHeader, dragState]);
+  }, [currentTime, isPlaying, pixelsPerSecond, isDraggingHeader, dragState]);
 
   // Cursor handling
   useEffect(() => {
     if (dragState) {
-        if (dragState.handle === 'body') document.body.style.cursor = 'grabbing';
+        if (dragState.handle === 'body') document.body.style.cursor = dropTarget?.valid === false ? 'not-allowed' : 'grabbing';
+        else if (dragState.handle === 'fadeIn' || dragState.handle === 'fadeOut') document.body.style.cursor = 'ew-resize';
         else document.body.style.cursor = dragState.handle === 'left' ? 'w-resize' : 'e-resize';
     } else {
         document.body.style.cursor = '';
     }
     return () => { document.body.style.cursor = ''; };
-  }, [dragState]);
+  }, [dragState, dropTarget]);
+
+  const getTrackAtY = (clientY: number): Track | undefined => {
+    if (!containerRef.current) return undefined;
+    const rect = containerRef.current.getBoundingClientRect();
+    const y = clientY - rect.top + containerRef.current.scrollTop - RULER_HEIGHT;
+    return y < 0 ? undefined : tracks[Math.floor(y / TRACK_HEIGHT)];
+  };
 
   // Snap Logic
-  const getSnapTime = (proposedTime: number, excludeClipId: string): { time: number; snapped: boolean } => {
-    const snapThresholdTime = SNAP_THRESHOLD_PX / PIXELS_PER_SECOND;
+  const getSnapTime = (proposedTime: number, excludeClipIds: string[]): { time: number; snapped: boolean } => {
+    const snapThresholdTime = SNAP_THRESHOLD_PX / pixelsPerSecond;
     const snapPoints = [0, currentTime];
     
     clips.forEach(c => {
-        if (c.id === excludeClipId) return;
+        if (excludeClipIds.includes(c.id)) return;
         snapPoints.push(c.startOffset);
         snapPoints.push(c.startOffset + c.duration);
     });
@@ -130,91 +324,101 @@ export const Timeline: React.FC<TimelineProps> = ({
     if (!dragState) return;
 
     const handleGlobalMouseMove = (e: MouseEvent) => {
-        const { clipId, handle, startX, originalClip } = dragState;
+        const { clipId, handle, startX, originalClip, originals } = dragState;
         const deltaPixels = e.clientX - startX;
-        const deltaTime = deltaPixels / PIXELS_PER_SECOND;
-        
-        const asset = assets.find(a => a.id === originalClip.assetId);
+        // Clips start on frames, so whole-frame moves keep them there
+        const deltaTime = snapToFrame(deltaPixels / pixelsPerSecond, frameRate);
+        if (deltaPixels !== 0) dragMovedRef.current = true;
+
+        const groupIds = originals.map(c => c.id);
+        const assetFor = (clip: TimelineClip) => assets.find(a => a.id === clip.assetId);
+        const asset = assetFor(originalClip);
         if (!asset) return;
 
-        let newUpdates: Partial<TimelineClip> = {};
+        const updates: Record<string, Partial<TimelineClip>> = {};
         let activeSnapX: number | null = null;
 
         if (handle === 'body') {
             let newStartOffset = originalClip.startOffset + deltaTime;
             
-            // Snapping
-            const snapLeft = getSnapTime(newStartOffset, clipId);
-            const snapRight = getSnapTime(newStartOffset + originalClip.duration, clipId);
+            // Snapping, by the grabbed clip's edges
+            const snapLeft = getSnapTime(newStartOffset, groupIds);
+            const snapRight = getSnapTime(newStartOffset + originalClip.duration, groupIds);
 
             if (snapLeft.snapped) {
                 newStartOffset = snapLeft.time;
-                activeSnapX = snapLeft.time * PIXELS_PER_SECOND;
+                activeSnapX = snapLeft.time * pixelsPerSecond;
             } else if (snapRight.snapped) {
                 newStartOffset = snapRight.time - originalClip.duration;
-                activeSnapX = snapRight.time * PIXELS_PER_SECOND;
+                activeSnapX = snapRight.time * pixelsPerSecond;
             }
 
-            if (newStartOffset < 0) newStartOffset = 0;
-            newUpdates = { startOffset: newStartOffset };
-        } 
-        else if (handle === 'left') {
-            let newStartOffset = originalClip.startOffset + deltaTime;
-            const snapResult = getSnapTime(newStartOffset, clipId);
-            
-            let finalStart = snapResult.snapped ? snapResult.time : newStartOffset;
-            if(snapResult.snapped) activeSnapX = finalStart * PIXELS_PER_SECOND;
+            // The whole group stops when its earliest clip reaches zero
+            const earliest = Math.min(...originals.map(c => c.startOffset));
+            const delta = Math.max(newStartOffset - originalClip.startOffset, -earliest);
 
-            const actualDelta = finalStart - originalClip.startOffset;
-            
-            let newMediaStart = originalClip.mediaStart + actualDelta;
-            let newDuration = originalClip.duration - actualDelta;
-            
-            // Constraints
-            if (newMediaStart < 0) {
-                 const correction = 0 - newMediaStart;
-                 newMediaStart = 0;
-                 finalStart += correction;
-                 newDuration -= correction;
-            }
-            if (newDuration < MIN_CLIP_DURATION) {
-                newDuration = MIN_CLIP_DURATION;
-                finalStart = (originalClip.startOffset + originalClip.duration) - MIN_CLIP_DURATION;
-                newMediaStart = (originalClip.mediaStart + originalClip.duration) - MIN_CLIP_DURATION;
+            // Vertical move: every clip shifts by the same number of tracks, and only if all of them
+            // land on unlocked tracks of their kind; otherwise they stay put
+            const trackIndex = (clip: TimelineClip) => tracks.findIndex(t => t.id === clip.trackId);
+            let trackShift = 0;
+            const hoveredTrack = getTrackAtY(e.clientY);
+            if (hoveredTrack) {
+                const shift = tracks.indexOf(hoveredTrack) - trackIndex(originalClip);
+                const valid = shift === 0 || originals.every(c => {
+                    const target = tracks[trackIndex(c) + shift];
+                    const clipAsset = assetFor(c);
+                    return !!target && !!clipAsset && isTrackCompatible(target, clipAsset.type) && !target.locked;
+                });
+                setDropTarget({ trackId: hoveredTrack.id, valid });
+                if (valid) trackShift = shift;
+            } else {
+                setDropTarget(null);
             }
 
-            newUpdates = {
-                startOffset: finalStart,
-                mediaStart: newMediaStart,
-                duration: newDuration
-            };
+            originals.forEach(c => {
+                updates[c.id] = { startOffset: c.startOffset + delta, trackId: tracks[trackIndex(c) + trackShift]?.id ?? c.trackId };
+            });
+        } 
+        else if (handle === 'fadeIn' || handle === 'fadeOut') {
+            // Both handles move inward from their end of the clip, and the two fades can't overlap
+            const other = (handle === 'fadeIn' ? originalClip.fadeOut : originalClip.fadeIn) ?? 0;
+            const proposed = (originalClip[handle] ?? 0) + (handle === 'fadeIn' ? deltaTime : -deltaTime);
+            const fade = Math.min(Math.max(proposed, 0), originalClip.duration - other);
+            updates[clipId] = { [handle]: Math.round(fade * 100) / 100 };
+        }
+        else if (handle === 'left') {
+            // The grabbed edge snaps; the other selected clips trim by the same amount within their own limits
+            const snapResult = getSnapTime(originalClip.startOffset + deltaTime, groupIds);
+            const delta = snapResult.snapped ? snapResult.time - originalClip.startOffset : deltaTime;
+            if (snapResult.snapped) activeSnapX = snapResult.time * pixelsPerSecond;
+
+            originals.forEach(c => {
+                const clipAsset = assetFor(c);
+                if (clipAsset) updates[c.id] = trimStart(c, clipAsset, delta, frameRate);
+            });
         } else {
             // Right Handle
-            let proposedEnd = originalClip.startOffset + originalClip.duration + deltaTime;
-            const snapResult = getSnapTime(proposedEnd, clipId);
-            
-            let newDuration = snapResult.snapped 
-                ? snapResult.time - originalClip.startOffset 
-                : originalClip.duration + deltaTime;
-            
-            if(snapResult.snapped) activeSnapX = snapResult.time * PIXELS_PER_SECOND;
+            const originalEnd = originalClip.startOffset + originalClip.duration;
+            const snapResult = getSnapTime(originalEnd + deltaTime, groupIds);
+            const delta = snapResult.snapped ? snapResult.time - originalEnd : deltaTime;
+            if (snapResult.snapped) activeSnapX = snapResult.time * pixelsPerSecond;
 
-            if (newDuration < MIN_CLIP_DURATION) newDuration = MIN_CLIP_DURATION;
-            if (asset.type === MediaType.VIDEO || asset.type === MediaType.AUDIO) {
-                 if (originalClip.mediaStart + newDuration > asset.duration) {
-                     newDuration = asset.duration - originalClip.mediaStart;
-                 }
-            }
-            newUpdates = { duration: newDuration };
+            originals.forEach(c => {
+                const clipAsset = assetFor(c);
+                if (clipAsset) updates[c.id] = trimEnd(c, clipAsset, delta, frameRate);
+            });
         }
         
         setSnapLineX(activeSnapX);
-        onUpdateClip(clipId, newUpdates);
+        onUpdateClips(updates);
     };
 
     const handleGlobalMouseUp = () => {
         setDragState(null);
         setSnapLineX(null);
+        setDropTarget(null);
+        onEditEnd(dragState.originals.map(c => c.id));
+        if (dragState.collapseSelection && !dragMovedRef.current) onSelectClips([dragState.clipId]);
     };
 
     document.addEventListener('mousemove', handleGlobalMouseMove);
@@ -224,29 +428,130 @@ export const Timeline: React.FC<TimelineProps> = ({
         document.removeEventListener('mousemove', handleGlobalMouseMove);
         document.removeEventListener('mouseup', handleGlobalMouseUp);
     };
-  }, [dragState, assets, onUpdateClip, currentTime, clips]);
+  }, [dragState, assets, tracks, onUpdateClips, onEditEnd, onSelectClips, currentTime, clips, pixelsPerSecond, frameRate]);
+
+  const isOnLockedTrack = (clip: TimelineClip) => !!tracks.find(t => t.id === clip.trackId)?.locked;
+
+  // Moves and trims carry the rest of the selection along; fades only ever change the grabbed clip
+  const startDrag = (clip: TimelineClip, handle: DragHandle, clientX: number, selection = selectedClipIds, collapseSelection = false) => {
+    const grouped = handle !== 'fadeIn' && handle !== 'fadeOut';
+    const originals = grouped
+        ? clips.filter(c => c.id === clip.id || (selection.includes(c.id) && !isOnLockedTrack(c)))
+        : [clip];
+    const plural = originals.length > 1 ? 's' : '';
+    onEditStart(handle === 'body' ? `Move Clip${plural}` : grouped ? `Trim Clip${plural}` : 'Adjust Fade');
+    dragMovedRef.current = false;
+    setDragState({
+        clipId: clip.id,
+        handle,
+        startX: clientX,
+        originalClip: clip,
+        originals,
+        collapseSelection,
+    });
+  };
+
+  // --- Marquee Selection ---
+
+  const toContentPoint = (clientX: number, clientY: number) => {
+    const container = containerRef.current!;
+    const rect = container.getBoundingClientRect();
+    return {
+        x: clientX - rect.left + container.scrollLeft,
+        y: clientY - rect.top + container.scrollTop - RULER_HEIGHT,
+    };
+  };
+
+  const getClipsInRect = (x0: number, y0: number, x1: number, y1: number): string[] => {
+    const [left, right] = [Math.min(x0, x1), Math.max(x0, x1)];
+    const [top, bottom] = [Math.min(y0, y1), Math.max(y0, y1)];
+    return clips.filter(c => {
+        const row = tracks.findIndex(t => t.id === c.trackId);
+        if (row === -1) return false;
+        const clipLeft = c.startOffset * pixelsPerSecond;
+        const clipRight = clipLeft + c.duration * pixelsPerSecond;
+        return clipLeft < right && clipRight > left && row * TRACK_HEIGHT < bottom && (row + 1) * TRACK_HEIGHT > top;
+    }).map(c => c.id);
+  };
+
+  const startMarquee = (e: React.MouseEvent) => {
+    const point = toContentPoint(e.clientX, e.clientY);
+    const additive = e.shiftKey || e.ctrlKey || e.metaKey;
+    marqueeStartRef.current = { additive, base: additive ? selectedClipIds : [] };
+    setMarquee({ x0: point.x, y0: point.y, x1: point.x, y1: point.y });
+  };
+
+  const marqueeActive = marquee !== null;
+  useEffect(() => {
+    if (!marquee) return;
+    const { x0, y0 } = marquee;
+    const { additive, base } = marqueeStartRef.current;
+    let dragged = false;
+
+    const handleGlobalMouseMove = (e: MouseEvent) => {
+        const { x, y } = toContentPoint(e.clientX, e.clientY);
+        if (Math.hypot(x - x0, y - y0) >= MARQUEE_THRESHOLD_PX) dragged = true;
+        if (!dragged) return;
+        setMarquee({ x0, y0, x1: x, y1: y });
+        const inside = getClipsInRect(x0, y0, x, y);
+        onSelectClips([...base, ...inside.filter(id => !base.includes(id))]);
+    };
+
+    const handleGlobalMouseUp = () => {
+        setMarquee(null);
+        if (dragged) {
+            suppressClickRef.current = true;
+            setTimeout(() => { suppressClickRef.current = false; }, 0);
+        } else if (!additive) {
+            // A plain click on empty space clears the selection (and still moves the playhead)
+            onSelectClips([]);
+        }
+    };
+
+    document.addEventListener('mousemove', handleGlobalMouseMove);
+    document.addEventListener('mouseup', handleGlobalMouseUp);
+    return () => {
+        document.removeEventListener('mousemove', handleGlobalMouseMove);
+        document.removeEventListener('mouseup', handleGlobalMouseUp);
+    };
+    // Subscribes once per marquee; the clips and zoom can't change while it is drawn
+  }, [marqueeActive]);
 
   const handleTimelineClick = (e: React.MouseEvent) => {
-    if (!containerRef.current || isDraggingHeader || dragState) return;
+    if (!containerRef.current || isDraggingHeader || dragState || suppressClickRef.current) return;
     const rect = containerRef.current.getBoundingClientRect();
     const scrollLeft = containerRef.current.scrollLeft;
-    // Account for header width
-    const clickX = e.clientX - rect.left + scrollLeft - HEADER_WIDTH;
-    const newTime = Math.max(0, clickX / PIXELS_PER_SECOND);
+    // Content area starts after the track headers
+    const clickX = e.clientX - rect.left + scrollLeft;
+    const newTime = Math.max(0, clickX / pixelsPerSecond);
     onSeek(newTime);
   };
 
+  // Label spacing adapts to the zoom; only ticks inside the visible range are drawn
   const renderRuler = () => {
+    const [step, divisions] = RULER_STEPS.find(([seconds]) => seconds * pixelsPerSecond >= MIN_RULER_LABEL_SPACING) ?? RULER_STEPS[RULER_STEPS.length - 1];
+    const minor = step / divisions;
+    const showMinor = minor * pixelsPerSecond >= MIN_RULER_TICK_SPACING;
+    const tick = showMinor ? minor : step;
+
+    const first = Math.floor(viewport.scrollLeft / pixelsPerSecond / step) * step;
+    const last = (viewport.scrollLeft + viewport.width) / pixelsPerSecond + step;
     const markers = [];
-    const width = Math.max(window.innerWidth, totalDuration * PIXELS_PER_SECOND + 500);
-    
-    for (let i = 0; i < width; i += PIXELS_PER_SECOND) {
-      const seconds = i / PIXELS_PER_SECOND;
+
+    for (let i = Math.round(first / tick); i * tick <= last; i++) {
+      const seconds = i * tick;
+      const isMajor = !showMinor || i % divisions === 0;
       markers.push(
-        <div key={i} className="absolute top-0 bottom-0 border-l border-zinc-700 pointer-events-none" style={{ left: i }}>
-          <span className="text-[10px] text-zinc-500 ml-1 block mt-1 select-none">
-            {new Date(seconds * 1000).toISOString().substr(14, 5)}
-          </span>
+        <div
+            key={i}
+            className={`absolute bottom-0 border-l pointer-events-none ${isMajor ? 'top-0 border-zinc-700' : 'h-1.5 border-zinc-800'}`}
+            style={{ left: seconds * pixelsPerSecond }}
+        >
+          {isMajor && (
+            <span className="text-[10px] text-zinc-500 ml-1 block mt-1 select-none whitespace-nowrap">
+              {formatRulerTime(seconds, step)}
+            </span>
+          )}
         </div>
       );
     }
@@ -255,33 +560,311 @@ export const Timeline: React.FC<TimelineProps> = ({
 
   const getAssetForClip = (clip: TimelineClip) => assets.find(a => a.id === clip.assetId);
 
+  const isTransitionDrag = (e: React.DragEvent) => e.dataTransfer.types.includes(TRANSITION_DRAG_TYPE);
+
+  // Cuts between touching clips on a video track, with the transition (if any) drawn across them
+  const renderCuts = (track: Track) => {
+    if (track.kind !== TrackKind.VIDEO) return null;
+    const trackClips = clips.filter(c => c.trackId === track.id);
+
+    return trackClips.map(incoming => {
+        const outgoing = getPreviousAdjacentClip(trackClips, incoming);
+        if (!outgoing) return null;
+        const cutX = incoming.startOffset * pixelsPerSecond;
+        const isDropTarget = transitionDropClipId === incoming.id;
+
+        const dropHandlers = track.locked ? {} : {
+            onDragOver: (e: React.DragEvent) => {
+                if (!isTransitionDrag(e)) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'copy';
+                setTransitionDropClipId(incoming.id);
+            },
+            onDragLeave: () => setTransitionDropClipId(null),
+            onDrop: (e: React.DragEvent) => {
+                const type = e.dataTransfer.getData(TRANSITION_DRAG_TYPE) as TransitionType;
+                setTransitionDropClipId(null);
+                if (!type) return;
+                e.preventDefault();
+                onSetTransition(incoming.id, { type, duration: incoming.transitionIn?.duration ?? DEFAULT_TRANSITION_DURATION });
+            },
+        };
+
+        if (!incoming.transitionIn) {
+            return (
+                <div
+                    key={`cut-${incoming.id}`}
+                    className={`absolute top-1 bottom-1 z-20 rounded-sm transition-colors ${isDropTarget ? 'bg-purple-500/60' : ''}`}
+                    style={{ left: cutX - CUT_DROP_ZONE_WIDTH / 2, width: CUT_DROP_ZONE_WIDTH }}
+                    {...dropHandlers}
+                />
+            );
+        }
+
+        const width = Math.max(getTransitionDuration(outgoing, incoming) * pixelsPerSecond, CUT_DROP_ZONE_WIDTH);
+        return (
+            <div
+                key={`cut-${incoming.id}`}
+                className={`absolute top-3 bottom-3 z-20 rounded border flex items-center justify-center cursor-pointer transition-colors
+                    ${isDropTarget ? 'bg-purple-500/70 border-purple-300' : 'bg-purple-600/50 border-purple-400/60 hover:bg-purple-500/60'}
+                `}
+                style={{ left: cutX - width / 2, width }}
+                title={TRANSITION_LABELS[incoming.transitionIn.type]}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={(e) => {
+                    e.stopPropagation();
+                    if (track.locked) return;
+                    const rect = e.currentTarget.getBoundingClientRect();
+                    setEditingTransition({ clipId: incoming.id, x: rect.left + rect.width / 2, y: rect.top });
+                }}
+                {...dropHandlers}
+            >
+                <Blend size={12} className="text-white/90 pointer-events-none" />
+            </div>
+        );
+    });
+  };
+
+  const renderTransitionPopover = () => {
+    const incoming = editingTransition && clips.find(c => c.id === editingTransition.clipId);
+    const outgoing = incoming && getPreviousAdjacentClip(clips, incoming);
+    if (!editingTransition || !incoming?.transitionIn || !outgoing) return null;
+    const transition = incoming.transitionIn;
+    const maxDuration = Math.min(outgoing.duration, incoming.duration);
+
+    return (
+        <>
+            <div className="fixed inset-0 z-40" onClick={() => setEditingTransition(null)} />
+            <div
+                className="fixed z-50 w-56 -translate-x-1/2 -translate-y-full -mt-2 bg-zinc-900 border border-zinc-700 rounded-lg p-3 shadow-2xl text-xs"
+                style={{ left: editingTransition.x, top: editingTransition.y }}
+            >
+                <div className="grid grid-cols-2 gap-1 mb-3">
+                    {Object.values(TransitionType).map(type => (
+                        <button
+                            key={type}
+                            className={`px-2 h-7 rounded transition-colors ${transition.type === type ? 'bg-purple-600 text-white' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`}
+                            onClick={() => onSetTransition(incoming.id, { ...transition, type })}
+                        >
+                            {TRANSITION_LABELS[type]}
+                        </button>
+                    ))}
+                </div>
+                <label className="flex items-center justify-between text-zinc-400 mb-3">
+                    Duration (s)
+                    <input
+                        key={`${incoming.id}-${transition.duration}`}
+                        type="number"
+                        min={0.1}
+                        max={maxDuration}
+                        step={0.1}
+                        defaultValue={transition.duration}
+                        className="w-20 bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-white focus:outline-none"
+                        onBlur={(e) => {
+                            const duration = Math.min(Math.max(parseFloat(e.target.value) || 0, 0.1), maxDuration);
+                            if (duration !== transition.duration) onSetTransition(incoming.id, { ...transition, duration });
+                        }}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur();
+                        }}
+                    />
+                </label>
+                <button
+                    className="w-full flex items-center justify-center h-7 rounded text-red-400 hover:bg-red-500/10"
+                    onClick={() => {
+                        onSetTransition(incoming.id, undefined);
+                        setEditingTransition(null);
+                    }}
+                >
+                    <Trash2 size={12} className="mr-1" /> Remove Transition
+                </button>
+            </div>
+        </>
+    );
+  };
+
+  // Fade envelope over the clip, with drag handles on its top corners while selected
+  const renderFades = (clip: TimelineClip, editable: boolean) => {
+    const width = clip.duration * pixelsPerSecond;
+    const height = CLIP_HEIGHT;
+    const fadeIn = Math.min(clip.fadeIn ?? 0, clip.duration) * pixelsPerSecond;
+    const fadeOut = Math.min(clip.fadeOut ?? 0, clip.duration) * pixelsPerSecond;
+
+    return (
+        <>
+            {(fadeIn > 0 || fadeOut > 0) && (
+                <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+                    {fadeIn > 0 && <polygon points={`0,0 ${fadeIn},0 0,${height}`} className="fill-black/40 stroke-white/60" strokeWidth={1} />}
+                    {fadeOut > 0 && <polygon points={`${width},0 ${width - fadeOut},0 ${width},${height}`} className="fill-black/40 stroke-white/60" strokeWidth={1} />}
+                </svg>
+            )}
+            {editable && (['fadeIn', 'fadeOut'] as const).map(handle => (
+                <div
+                    key={handle}
+                    className="absolute top-0 bg-white border border-zinc-900 rounded-sm cursor-ew-resize z-30"
+                    style={{
+                        width: FADE_HANDLE_SIZE,
+                        height: FADE_HANDLE_SIZE,
+                        left: handle === 'fadeIn' ? fadeIn : width - fadeOut - FADE_HANDLE_SIZE,
+                    }}
+                    title={handle === 'fadeIn' ? `Fade In ${(clip.fadeIn ?? 0).toFixed(2)}s` : `Fade Out ${(clip.fadeOut ?? 0).toFixed(2)}s`}
+                    onMouseDown={(e) => {
+                        e.stopPropagation();
+                        startDrag(clip, handle, e.clientX);
+                    }}
+                />
+            ))}
+        </>
+    );
+  };
+
+  const renderTrackHeader = (track: Track, index: number) => {
+    const { icon: Icon, iconClass } = TRACK_KIND_STYLES[track.kind];
+    const toggleClass = (active: boolean) =>
+        `p-0.5 rounded hover:bg-zinc-700 ${active ? 'text-yellow-400' : 'text-zinc-500 hover:text-zinc-200'}`;
+
+    return (
+        <div key={track.id} className="group flex flex-col justify-center px-2 border-b border-zinc-800 text-xs text-zinc-400 font-medium" style={{ height: TRACK_HEIGHT }}>
+            <div className="flex items-center min-w-0">
+                <Icon size={14} className={`mr-2 flex-shrink-0 ${iconClass}`} />
+                {renamingTrackId === track.id ? (
+                    <input
+                        autoFocus
+                        defaultValue={track.name}
+                        className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded px-1 text-xs text-white focus:outline-none"
+                        onBlur={(e) => {
+                            const name = e.target.value.trim();
+                            if (name && name !== track.name) onUpdateTrack(track.id, { name });
+                            setRenamingTrackId(null);
+                        }}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur();
+                            if (e.key === 'Escape') setRenamingTrackId(null);
+                        }}
+                    />
+                ) : (
+                    <span className="flex-1 truncate" onDoubleClick={() => setRenamingTrackId(track.id)} title="Double-click to rename">
+                        {track.name}
+                    </span>
+                )}
+                <button
+                    className="p-0.5 rounded text-zinc-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    onClick={() => onDeleteTrack(track.id)}
+                    title="Delete Track"
+                >
+                    <X size={12} />
+                </button>
+            </div>
+            <div className="flex items-center gap-0.5 mt-1">
+                <button className={toggleClass(false)} disabled={index === 0} onClick={() => onMoveTrack(track.id, -1)} title="Move Up">
+                    <ChevronUp size={12} />
+                </button>
+                <button className={toggleClass(false)} disabled={index === tracks.length - 1} onClick={() => onMoveTrack(track.id, 1)} title="Move Down">
+                    <ChevronDown size={12} />
+                </button>
+                {/* Video tracks carry their clips' sound too */}
+                {(track.kind === TrackKind.AUDIO || track.kind === TrackKind.VIDEO) && (
+                    <>
+                        <button className={toggleClass(track.muted)} onClick={() => onUpdateTrack(track.id, { muted: !track.muted })} title="Mute">
+                            {track.muted ? <VolumeX size={12} /> : <Volume2 size={12} />}
+                        </button>
+                        <button className={`${toggleClass(track.solo)} text-[10px] font-bold w-4 leading-3`} onClick={() => onUpdateTrack(track.id, { solo: !track.solo })} title="Solo">
+                            S
+                        </button>
+                    </>
+                )}
+                {track.kind !== TrackKind.AUDIO && (
+                    <button className={toggleClass(track.hidden)} onClick={() => onUpdateTrack(track.id, { hidden: !track.hidden })} title={track.hidden ? 'Show Track' : 'Hide Track'}>
+                        {track.hidden ? <EyeOff size={12} /> : <Eye size={12} />}
+                    </button>
+                )}
+                <button className={toggleClass(track.locked)} onClick={() => onUpdateTrack(track.id, { locked: !track.locked })} title={track.locked ? 'Unlock Track' : 'Lock Track'}>
+                    {track.locked ? <Lock size={12} /> : <Unlock size={12} />}
+                </button>
+                {track.kind === TrackKind.SUBTITLE && (
+                    <>
+                        <button className={toggleClass(false)} disabled={track.locked} onClick={() => onAddCue(track.id)} title="Add Cue at Playhead">
+                            <Plus size={12} />
+                        </button>
+                        {Object.values(SubtitleFormat).map(format => (
+                            <button
+                                key={format}
+                                className={`${toggleClass(false)} text-[9px] font-bold uppercase leading-3`}
+                                onClick={() => onExportSubtitles(track.id, format)}
+                                title={`Export as .${format}`}
+                            >
+                                {format}
+                            </button>
+                        ))}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+  };
+
   return (
     <div className="flex flex-row h-full bg-zinc-950 border-t border-zinc-800 select-none overflow-hidden">
       
       {/* Track Headers */}
-      <div className="w-[100px] flex-shrink-0 bg-zinc-900 border-r border-zinc-800 z-20 flex flex-col pt-8">
-        {TRACK_DEFINITIONS.map(track => {
-            const Icon = track.icon;
-            return (
-                <div key={track.id} className="h-14 flex items-center px-3 border-b border-zinc-800 text-xs text-zinc-400 font-medium">
-                    <Icon size={14} className={`mr-2 ${track.iconClass}`} />
-                    {track.label}
-                </div>
-            );
-        })}
+      <div className="flex-shrink-0 bg-zinc-900 border-r border-zinc-800 z-20 flex flex-col" style={{ width: HEADER_WIDTH }}>
+        <div className="flex items-center gap-1 px-2 border-b border-zinc-800 flex-shrink-0" style={{ height: RULER_HEIGHT }}>
+            <Plus size={12} className="text-zinc-500 mr-1" />
+            {[TrackKind.VIDEO, TrackKind.TEXT, TrackKind.AUDIO, TrackKind.SUBTITLE].map(kind => {
+                const { icon: Icon, iconClass } = TRACK_KIND_STYLES[kind];
+                return (
+                    <button key={kind} className="p-1 rounded hover:bg-zinc-800" onClick={() => onAddTrack(kind)} title={`Add ${kind} track`}>
+                        <Icon size={12} className={iconClass} />
+                    </button>
+                );
+            })}
+        </div>
+        {/* Scrolled in step with the timeline content */}
+        <div ref={trackHeadersRef} className="flex-1 overflow-hidden">
+            {tracks.map(renderTrackHeader)}
+        </div>
+        <div className="flex items-center gap-1 px-2 border-t border-zinc-800 flex-shrink-0" style={{ height: ZOOM_BAR_HEIGHT }}>
+            <button className="p-1 rounded text-zinc-400 hover:bg-zinc-800" onClick={() => zoomTo(pixelsPerSecond / ZOOM_BUTTON_FACTOR)} title={`Zoom Out${getShortcutHint(shortcutBindings, ShortcutAction.ZOOM_OUT)}`}>
+                <ZoomOut size={12} />
+            </button>
+            <input
+                type="range"
+                min={Math.log(MIN_PIXELS_PER_SECOND)}
+                max={Math.log(MAX_PIXELS_PER_SECOND)}
+                step={0.01}
+                value={Math.log(pixelsPerSecond)}
+                onChange={(e) => zoomTo(Math.exp(parseFloat(e.target.value)))}
+                className="flex-1 min-w-0 accent-zinc-400"
+                title="Zoom (Ctrl + scroll)"
+            />
+            <button className="p-1 rounded text-zinc-400 hover:bg-zinc-800" onClick={() => zoomTo(pixelsPerSecond * ZOOM_BUTTON_FACTOR)} title={`Zoom In${getShortcutHint(shortcutBindings, ShortcutAction.ZOOM_IN)}`}>
+                <ZoomIn size={12} />
+            </button>
+            <button className="p-1 rounded text-zinc-400 hover:bg-zinc-800" onClick={fitToProject} title={`Fit Project${getShortcutHint(shortcutBindings, ShortcutAction.ZOOM_FIT)}`}>
+                <FoldHorizontal size={12} />
+            </button>
+        </div>
       </div>
 
       {/* Timeline Content */}
       <div 
         ref={containerRef}
-        className="relative flex-1 overflow-x-auto overflow-y-hidden"
+        className="relative flex-1 overflow-auto"
+        onScroll={(e) => {
+            if (trackHeadersRef.current) trackHeadersRef.current.scrollTop = e.currentTarget.scrollTop;
+            setViewport({ scrollLeft: e.currentTarget.scrollLeft, width: e.currentTarget.clientWidth });
+        }}
         onMouseMove={(e) => isDraggingHeader && handleTimelineClick(e)}
         onMouseUp={() => setIsDraggingHeader(false)}
         onMouseLeave={() => setIsDraggingHeader(false)}
       >
         <div 
-            className="relative h-full"
-            style={{ width: Math.max(window.innerWidth - HEADER_WIDTH, totalDuration * PIXELS_PER_SECOND + 800) }}
+            className="relative min-h-full"
+            style={{
+                width: Math.max(window.innerWidth - HEADER_WIDTH, totalDuration * pixelsPerSecond + 800),
+                // Room for the zoom bar under the headers, so both sides scroll to the same last track
+                height: RULER_HEIGHT + tracks.length * TRACK_HEIGHT + ZOOM_BAR_HEIGHT
+            }}
         >
              {/* Playhead & Ruler Container */}
              <div 
@@ -290,7 +873,7 @@ export const Timeline: React.FC<TimelineProps> = ({
              >
                  {/* Ruler */}
                 <div 
-                    className="h-8 border-b border-zinc-800 relative cursor-pointer hover:bg-zinc-900/50 z-10 bg-zinc-950/80 backdrop-blur-sm"
+                    className="sticky top-0 h-8 border-b border-zinc-800 cursor-pointer hover:bg-zinc-900/50 z-10 bg-zinc-950/80 backdrop-blur-sm"
                     onMouseDown={(e) => {
                         if(dragState) return;
                         setIsDraggingHeader(true);
@@ -311,20 +894,28 @@ export const Timeline: React.FC<TimelineProps> = ({
                 {/* Playhead */}
                 <div 
                     className="absolute top-0 bottom-0 w-px bg-white z-40 pointer-events-none"
-                    style={{ left: currentTime * PIXELS_PER_SECOND }}
+                    style={{ left: currentTime * pixelsPerSecond }}
                 >
                     <div className="w-3 h-3 -ml-1.5 bg-white rotate-45 transform -mt-1.5 rounded-sm shadow-md" />
                 </div>
 
                 {/* Tracks */}
-                <div className="relative">
-                    {TRACK_DEFINITIONS.map((track) => (
-                        <div key={track.id} className="h-14 border-b border-zinc-800/50 relative w-full">
-                            {clips.filter(c => c.trackIndex === track.id).map(clip => {
+                <div className="relative select-none" onMouseDown={(e) => e.button === 0 && startMarquee(e)}>
+                    {tracks.map((track) => (
+                        <div
+                            key={track.id}
+                            className={`border-b border-zinc-800/50 relative w-full
+                                ${track.locked ? 'bg-zinc-900/40' : ''}
+                                ${dropTarget?.trackId === track.id ? (dropTarget.valid ? 'bg-blue-500/10 ring-1 ring-inset ring-blue-500/50' : 'bg-red-500/10 ring-1 ring-inset ring-red-500/50') : ''}
+                            `}
+                            style={{ height: TRACK_HEIGHT }}
+                        >
+                            {clips.filter(c => c.trackId === track.id).map(clip => {
                                 const asset = getAssetForClip(clip);
-                                const isSelected = selectedClipId === clip.id;
+                                const isSelected = selectedClipIds.includes(clip.id);
+                                const isEditable = !track.locked;
                                 
-                                const clipBaseClass = track.clipClass || 'bg-zinc-700';
+                                const clipBaseClass = TRACK_KIND_STYLES[track.kind].clipClass || 'bg-zinc-700';
 
                                 return (
                                     <div
@@ -332,37 +923,89 @@ export const Timeline: React.FC<TimelineProps> = ({
                                         onMouseDown={(e) => {
                                             e.stopPropagation();
                                             if (e.button !== 0) return;
-                                            onClipSelect(clip.id);
-                                            setDragState({
-                                                clipId: clip.id,
-                                                handle: 'body',
-                                                startX: e.clientX,
-                                                originalClip: clip
-                                            });
+                                            // Shift/Ctrl toggles the clip in the selection; pressing a selected clip keeps the selection for a group move
+                                            const toggle = e.shiftKey || e.ctrlKey || e.metaKey;
+                                            const selection = toggle
+                                                ? (isSelected ? selectedClipIds.filter(id => id !== clip.id) : [...selectedClipIds, clip.id])
+                                                : (isSelected ? selectedClipIds : [clip.id]);
+                                            if (selection !== selectedClipIds) onSelectClips(selection);
+                                            if (isEditable && selection.includes(clip.id)) {
+                                                startDrag(clip, 'body', e.clientX, selection, !toggle && selection.length > 1);
+                                            }
                                         }}
-                                        className={`absolute top-1 bottom-1 rounded-md overflow-hidden border cursor-grab active:cursor-grabbing transition-colors group
+                                        onDoubleClick={() => isEditable && clip.cue && setEditingCueClipId(clip.id)}
+                                        className={`absolute top-1 bottom-1 rounded-md overflow-hidden border transition-colors group
+                                            ${isEditable ? 'cursor-grab active:cursor-grabbing' : 'cursor-not-allowed'}
+                                            ${track.hidden || (track.kind === TrackKind.AUDIO && track.muted) ? 'opacity-40' : ''}
                                             ${isSelected ? 'border-yellow-500 z-10 shadow-lg' : `border-transparent hover:border-zinc-500 ${clipBaseClass}`}
                                         `}
                                         style={{
-                                            left: clip.startOffset * PIXELS_PER_SECOND,
-                                            width: clip.duration * PIXELS_PER_SECOND,
+                                            left: clip.startOffset * pixelsPerSecond,
+                                            width: clip.duration * pixelsPerSecond,
                                         }}
                                     >
+                                        {asset && <ClipMediaPreview clip={clip} asset={asset} pixelsPerSecond={pixelsPerSecond} height={CLIP_HEIGHT} />}
                                         <div className="absolute inset-0 flex items-center px-2 opacity-80 pointer-events-none overflow-hidden">
                                             {asset?.type === MediaType.IMAGE && <img src={asset.src} className="h-full w-auto aspect-square object-cover opacity-50 mr-2 rounded-sm" alt="" />}
                                             <span className="text-[10px] truncate font-medium text-white/90 drop-shadow-md">
-                                                {asset?.name}
+                                                {clip.cue ? getCueDisplayText(clip.cue) : asset?.name}
                                             </span>
+                                            {isRetimed(clip) && (
+                                                <span className="ml-1 flex-shrink-0 text-[9px] font-mono text-white/70 drop-shadow-md">
+                                                    {getClipSpeed(clip)}x{clip.reversed ? ' ◀' : ''}
+                                                </span>
+                                            )}
                                         </div>
 
+                                        {asset && hasAudio(asset.type) && renderFades(clip, isSelected && isEditable)}
+
+                                        {/* Cue text is edited in place */}
+                                        {editingCueClipId === clip.id && clip.cue && (
+                                            <textarea
+                                                autoFocus
+                                                defaultValue={clip.cue.text}
+                                                className="absolute inset-0 z-30 bg-zinc-950 text-[10px] text-white p-1 resize-none focus:outline-none focus:ring-1 focus:ring-sky-500"
+                                                onMouseDown={(e) => e.stopPropagation()}
+                                                onBlur={(e) => {
+                                                    const text = e.target.value.trim();
+                                                    if (text && text !== clip.cue!.text) onUpdateClips({ [clip.id]: { cue: { ...clip.cue!, text } } });
+                                                    setEditingCueClipId(null);
+                                                }}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) e.currentTarget.blur();
+                                                    if (e.key === 'Escape') {
+                                                        e.currentTarget.value = clip.cue!.text;
+                                                        e.currentTarget.blur();
+                                                    }
+                                                }}
+                                            />
+                                        )}
+
+                                        {/* Keyframes: click to jump the playhead there */}
+                                        {getKeyframeTimes(clip).map(time => (
+                                            <div
+                                                key={time}
+                                                className={`absolute bottom-1 w-2 h-2 -ml-1 rotate-45 border z-10 cursor-pointer
+                                                    ${isSelected ? 'bg-yellow-400 border-yellow-700' : 'bg-zinc-300 border-zinc-600'}
+                                                `}
+                                                style={{ left: time * pixelsPerSecond }}
+                                                title={`Keyframe at ${time.toFixed(2)}s`}
+                                                onMouseDown={(e) => {
+                                                    e.stopPropagation();
+                                                    onSelectClips([clip.id]);
+                                                    onSeek(clip.startOffset + time);
+                                                }}
+                                            />
+                                        ))}
+
                                         {/* Handles */}
-                                        {isSelected && (
+                                        {isSelected && isEditable && (
                                             <>
                                                 <div 
                                                     className="absolute left-0 top-0 bottom-0 w-3 -ml-1.5 cursor-w-resize z-20 group/handle flex items-center justify-center"
                                                     onMouseDown={(e) => {
                                                         e.stopPropagation();
-                                                        setDragState({ clipId: clip.id, handle: 'left', startX: e.clientX, originalClip: clip });
+                                                        startDrag(clip, 'left', e.clientX);
                                                     }}
                                                 >
                                                     <div className="w-1 h-full bg-yellow-500 rounded-full opacity-0 group-hover/handle:opacity-100 transition-opacity"/>
@@ -371,7 +1014,7 @@ export const Timeline: React.FC<TimelineProps> = ({
                                                     className="absolute right-0 top-0 bottom-0 w-3 -mr-1.5 cursor-e-resize z-20 group/handle flex items-center justify-center"
                                                     onMouseDown={(e) => {
                                                         e.stopPropagation();
-                                                        setDragState({ clipId: clip.id, handle: 'right', startX: e.clientX, originalClip: clip });
+                                                        startDrag(clip, 'right', e.clientX);
                                                     }}
                                                 >
                                                     <div className="w-1 h-full bg-yellow-500 rounded-full opacity-0 group-hover/handle:opacity-100 transition-opacity"/>
@@ -391,12 +1034,26 @@ export const Timeline: React.FC<TimelineProps> = ({
                                     </div>
                                 );
                             })}
+                            {renderCuts(track)}
                         </div>
                     ))}
+
+                    {marquee && (
+                        <div
+                            className="absolute border border-blue-400 bg-blue-500/10 z-30 pointer-events-none"
+                            style={{
+                                left: Math.min(marquee.x0, marquee.x1),
+                                top: Math.min(marquee.y0, marquee.y1),
+                                width: Math.abs(marquee.x1 - marquee.x0),
+                                height: Math.abs(marquee.y1 - marquee.y0),
+                            }}
+                        />
+                    )}
                 </div>
              </div>
         </div>
       </div>
+      {renderTransitionPopover()}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,81 @@
+import { useRef, useState, useCallback, useEffect } from 'react';
+
+// Live Web Audio graph for the preview: every media element feeds its own gain node into a master bus,
+// which is metered per channel on its way to the speakers.
+
+interface MixerChannel {
+  source: MediaElementAudioSourceNode;
+  gain: GainNode;
+}
+
+interface MixerGraph {
+  context: AudioContext;
+  master: GainNode;
+  channels: Map<HTMLMediaElement, MixerChannel>;
+}
+
+// Short smoothing so per-frame gain updates don't click
+const GAIN_SMOOTHING = 0.015;
+
+export const useAudioMixer = () => {
+  const graphRef = useRef<MixerGraph | null>(null);
+  // Left and right analysers for the master meter, available once playback has started the graph
+  const [meters, setMeters] = useState<AnalyserNode[] | null>(null);
+
+  // Browsers only let audio start after a user gesture, so the graph is created on first playback
+  const start = useCallback(() => {
+    if (!graphRef.current) {
+      const context = new AudioContext();
+      const master = context.createGain();
+      const splitter = context.createChannelSplitter(2);
+      const analysers = [context.createAnalyser(), context.createAnalyser()];
+      master.connect(context.destination);
+      master.connect(splitter);
+      analysers.forEach((analyser, channel) => {
+        analyser.fftSize = 1024;
+        splitter.connect(analyser, channel);
+      });
+      graphRef.current = { context, master, channels: new Map() };
+      setMeters(analysers);
+    }
+    if (graphRef.current.context.state === 'suspended') graphRef.current.context.resume().catch(() => {});
+  }, []);
+
+  // An element can only be wrapped by one source node, so its channel is created once and kept until released
+  const setGain = useCallback((element: HTMLMediaElement, gain: number) => {
+    const graph = graphRef.current;
+    if (!graph) return;
+    let channel = graph.channels.get(element);
+    if (!channel) {
+      channel = { source: graph.context.createMediaElementSource(element), gain: graph.context.createGain() };
+      channel.source.connect(channel.gain).connect(graph.master);
+      graph.channels.set(element, channel);
+    }
+    channel.gain.gain.setTargetAtTime(gain, graph.context.currentTime, GAIN_SMOOTHING);
+  }, []);
+
+  // Takes an element that is going away out of the graph, so it and its decoder can be collected
+  const release = useCallback((element: HTMLMediaElement) => {
+    const channel = graphRef.current?.channels.get(element);
+    if (!channel) return;
+    channel.source.disconnect();
+    channel.gain.disconnect();
+    graphRef.current!.channels.delete(element);
+  }, []);
+
+  // The audio output clock in seconds. Playback follows it so picture and sound can't drift apart.
+  // Null until the graph is running (e.g. while the browser still holds audio back).
+  const getClockTime = useCallback((): number | null => {
+    const context = graphRef.current?.context;
+    return context?.state === 'running' ? context.currentTime : null;
+  }, []);
+
+  useEffect(() => () => {
+    graphRef.current?.context.close();
+    graphRef.current = null;
+  }, []);
+
+  return { start, setGain, release, getClockTime, meters };
+};
+
+export type AudioMixer = ReturnType<typeof useAudioMixer>;
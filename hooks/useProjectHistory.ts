@@ -0,0 +1,121 @@
+import { useReducer, useCallback } from 'react';
+import { Project } from '../types';
+
+// Undo snapshots are kept until their estimated size exceeds this budget, oldest dropped first.
+const HISTORY_BUDGET_BYTES = 32 * 1024 * 1024;
+
+export type ProjectUpdater = (prev: Project) => Project;
+
+interface HistoryEntry {
+  label: string;
+  project: Project;
+  size: number;
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  present: Project;
+  future: HistoryEntry[];
+  // Open transaction: edits are folded into one entry when it ends (e.g. a whole drag)
+  pending: { label: string; before: Project } | null;
+}
+
+type HistoryAction =
+  | { type: 'commit'; label: string; updater: ProjectUpdater }
+  | { type: 'begin'; label: string }
+  | { type: 'end' }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+// Snapshots share unchanged objects, so media URLs (often large data URLs) and LUT tables are not counted per entry.
+const estimateSize = (project: Project): number =>
+  JSON.stringify(project, (key, value) => (key === 'src' || key === 'thumbnail' || key === 'data' ? undefined : value)).length * 2;
+
+const createEntry = (label: string, project: Project): HistoryEntry => ({
+  label,
+  project,
+  size: estimateSize(project),
+});
+
+const trimToBudget = (entries: HistoryEntry[]): HistoryEntry[] => {
+  let total = 0;
+  for (let i = entries.length - 1; i >= 0; i--) {
+    total += entries[i].size;
+    if (total > HISTORY_BUDGET_BYTES) return entries.slice(i + 1);
+  }
+  return entries;
+};
+
+const pushPast = (state: HistoryState, label: string, before: Project, present: Project): HistoryState => ({
+  ...state,
+  past: trimToBudget([...state.past, createEntry(label, before)]),
+  present,
+  future: [],
+});
+
+export const historyReducer = (state: HistoryState, action: HistoryAction): HistoryState => {
+  switch (action.type) {
+    case 'commit': {
+      const next = action.updater(state.present);
+      if (next === state.present) return state;
+      if (state.pending) return { ...state, present: next };
+      return pushPast(state, action.label, state.present, next);
+    }
+    case 'begin':
+      if (state.pending) return state;
+      return { ...state, pending: { label: action.label, before: state.present } };
+    case 'end': {
+      if (!state.pending) return state;
+      const { label, before } = state.pending;
+      const closed = { ...state, pending: null };
+      return before === state.present ? closed : pushPast(closed, label, before, state.present);
+    }
+    case 'undo': {
+      const entry = state.past[state.past.length - 1];
+      if (!entry || state.pending) return state;
+      return {
+        ...state,
+        past: state.past.slice(0, -1),
+        present: entry.project,
+        future: [...state.future, createEntry(entry.label, state.present)],
+      };
+    }
+    case 'redo': {
+      const entry = state.future[state.future.length - 1];
+      if (!entry || state.pending) return state;
+      return {
+        ...state,
+        past: trimToBudget([...state.past, createEntry(entry.label, state.present)]),
+        present: entry.project,
+        future: state.future.slice(0, -1),
+      };
+    }
+  }
+};
+
+export const useProjectHistory = (initialProject: Project) => {
+  const [state, dispatch] = useReducer(historyReducer, {
+    past: [],
+    present: initialProject,
+    future: [],
+    pending: null,
+  });
+
+  // Undoable edit. Inside a transaction it joins the transaction's entry instead.
+  const commit = useCallback((label: string, updater: ProjectUpdater) => dispatch({ type: 'commit', label, updater }), []);
+  const beginTransaction = useCallback((label: string) => dispatch({ type: 'begin', label }), []);
+  const endTransaction = useCallback(() => dispatch({ type: 'end' }), []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  return {
+    project: state.present,
+    commit,
+    beginTransaction,
+    endTransaction,
+    undo,
+    redo,
+    undoLabel: state.past[state.past.length - 1]?.label ?? null,
+    redoLabel: state.future[state.future.length - 1]?.label ?? null,
+  };
+};
@@ -0,0 +1,29 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { ShortcutAction, eventToCombo, findAction, getBindings, isTypingTarget, subscribeBindings } from '../services/shortcutService';
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+// Current bindings, re-rendering whenever the user rebinds a key
+export const useShortcutBindings = () => useSyncExternalStore(subscribeBindings, getBindings);
+
+// Runs the handler bound to each key press. Several components can register; each only sees its own actions.
+export const useShortcuts = (handlers: ShortcutHandlers, enabled = true) => {
+  // Handlers are read at key time, so callers can pass fresh closures every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.defaultPrevented || isTypingTarget(e.target)) return;
+        const combo = eventToCombo(e);
+        const action = combo && findAction(getBindings(), combo);
+        const handler = action && handlersRef.current[action];
+        if (!handler) return;
+        e.preventDefault();
+        handler();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
@@ -0,0 +1,53 @@
+import { Project, TimelineClip, MediaType, TrackKind } from '../types';
+import { isTrackAudible } from './projectService';
+import { getAnimatedValues, hasKeyframes } from './keyframes';
+
+// Mixing rules shared by the live preview graph and the offline export render, so both sound the same.
+
+// Per-clip gain goes past unity so quiet sources can be lifted
+export const MAX_CLIP_VOLUME = 2;
+
+// Samples per second when a clip's gain is scheduled as a curve
+export const GAIN_CURVE_RATE = 100;
+
+export const hasAudio = (type: MediaType) => type === MediaType.VIDEO || type === MediaType.AUDIO;
+
+// Clips whose sound reaches the mix: audio and video media on unmuted tracks (respecting solo)
+export const getAudibleClips = (project: Project): TimelineClip[] => {
+  const audibleTrackIds = new Set(
+    project.tracks
+      .filter(t => (t.kind === TrackKind.AUDIO || t.kind === TrackKind.VIDEO) && isTrackAudible(project, t))
+      .map(t => t.id)
+  );
+  return project.timeline.filter(clip => {
+    const asset = project.assets.find(a => a.id === clip.assetId);
+    return audibleTrackIds.has(clip.trackId) && !!asset && hasAudio(asset.type);
+  });
+};
+
+// Linear ramps from silence at the clip edges. Fades longer than the clip are squeezed to fit.
+export const getFadeGain = (clip: TimelineClip, time: number): number => {
+  const local = time - clip.startOffset;
+  const fadeIn = Math.min(clip.fadeIn ?? 0, clip.duration);
+  const fadeOut = Math.min(clip.fadeOut ?? 0, clip.duration);
+  let gain = 1;
+  if (fadeIn > 0 && local < fadeIn) gain = Math.min(gain, Math.max(0, local / fadeIn));
+  if (fadeOut > 0 && local > clip.duration - fadeOut) gain = Math.min(gain, Math.max(0, (clip.duration - local) / fadeOut));
+  return gain;
+};
+
+// Volume (keyframed or static) times the fade envelope at a timeline time
+export const getClipGain = (clip: TimelineClip, time: number): number =>
+  Math.min(Math.max(getAnimatedValues(clip, undefined, time).volume, 0), MAX_CLIP_VOLUME) * getFadeGain(clip, time);
+
+export const hasGainAutomation = (clip: TimelineClip): boolean =>
+  hasKeyframes(clip, 'volume') || (clip.fadeIn ?? 0) > 0 || (clip.fadeOut ?? 0) > 0;
+
+// The clip's gain sampled across its whole duration, for AudioParam.setValueCurveAtTime
+export const getGainCurve = (clip: TimelineClip): Float32Array => {
+  const curve = new Float32Array(Math.max(2, Math.ceil(clip.duration * GAIN_CURVE_RATE)));
+  curve.forEach((_, i) => {
+    curve[i] = getClipGain(clip, clip.startOffset + (i / (curve.length - 1)) * clip.duration);
+  });
+  return curve;
+};
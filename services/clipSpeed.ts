@@ -0,0 +1,59 @@
+import { TimelineClip } from '../types';
+import { floorToFrame } from './timecode';
+
+// Retimed clips. A clip plays `duration * speed` seconds of source starting at `mediaStart`, forwards or,
+// when reversed, from the end of that range back to `mediaStart`. Keyframes and fades stay in timeline time.
+
+export const MIN_CLIP_SPEED = 0.25;
+export const MAX_CLIP_SPEED = 4;
+
+export const getClipSpeed = (clip: TimelineClip): number => clip.speed ?? 1;
+
+export const isRetimed = (clip: TimelineClip): boolean => getClipSpeed(clip) !== 1 || !!clip.reversed;
+
+// Seconds of source the clip covers
+export const getSourceDuration = (clip: TimelineClip): number => clip.duration * getClipSpeed(clip);
+
+// Position in the source for a time measured from the clip start
+export const getClipMediaTime = (clip: TimelineClip, localTime: number): number => {
+  const speed = getClipSpeed(clip);
+  return clip.reversed ? clip.mediaStart + (clip.duration - localTime) * speed : clip.mediaStart + localTime * speed;
+};
+
+// The `mediaStart` of the part of a clip from `localStart` lasting `duration`, for splits and trims.
+// A reversed clip's later part plays earlier source. Trimming back to the very start of the source
+// can land a hair below zero from float noise, so it is clamped.
+export const getRangeMediaStart = (clip: TimelineClip, localStart: number, duration: number): number => {
+  const speed = getClipSpeed(clip);
+  const mediaStart = clip.reversed
+    ? clip.mediaStart + (clip.duration - localStart - duration) * speed
+    : clip.mediaStart + localStart * speed;
+  return Math.max(0, mediaStart);
+};
+
+// Timeline seconds each edge can be dragged outwards before the source runs out
+export const getTrimHeadroom = (clip: TimelineClip, sourceDuration: number): { start: number; end: number } => {
+  const speed = getClipSpeed(clip);
+  const before = clip.mediaStart / speed;
+  const after = Math.max(0, sourceDuration - clip.mediaStart - getSourceDuration(clip)) / speed;
+  return clip.reversed ? { start: after, end: before } : { start: before, end: after };
+};
+
+// Keeps the same source range: the clip gets longer when slowed down and shorter when sped up,
+// ending on the last whole frame. Keyframes and fades stretch with it.
+export const setClipSpeed = (clip: TimelineClip, speed: number, frameRate: number): TimelineClip => {
+  const next = Math.min(Math.max(speed, MIN_CLIP_SPEED), MAX_CLIP_SPEED);
+  const duration = Math.max(floorToFrame(getSourceDuration(clip) / next, frameRate), 1 / frameRate);
+  const ratio = duration / clip.duration;
+  const keyframes = clip.keyframes && Object.fromEntries(
+    Object.entries(clip.keyframes).map(([property, keys]) => [property, keys?.map(k => ({ ...k, time: k.time * ratio }))])
+  );
+  return {
+    ...clip,
+    speed: next === 1 ? undefined : next,
+    duration,
+    keyframes,
+    fadeIn: clip.fadeIn && clip.fadeIn * ratio,
+    fadeOut: clip.fadeOut && clip.fadeOut * ratio,
+  };
+};
@@ -0,0 +1,281 @@
+import { ChromaKey, ColorAdjustments, ColorLut, FilterPreset } from '../types';
+
+// Per-clip color work for the compositor: a chroma key, a filter preset, the adjustments, then a LUT,
+// all in one WebGL pass over the source frame. The result is drawn like the source itself, so the
+// preview and export share it. Blur is left to the 2D canvas, which does it at draw time.
+
+export const FILTER_LABELS: Record<FilterPreset, string> = {
+  [FilterPreset.MONO]: 'Mono',
+  [FilterPreset.NOIR]: 'Noir',
+  [FilterPreset.SEPIA]: 'Sepia',
+  [FilterPreset.VINTAGE]: 'Vintage',
+  [FilterPreset.VIVID]: 'Vivid',
+  [FilterPreset.FADED]: 'Faded',
+};
+
+// Row-major 3x3 color matrix plus an offset, on 0..1 RGB
+interface ColorMatrix {
+  matrix: number[];
+  offset: number[];
+}
+
+const LUMA = [0.2126, 0.7152, 0.0722];
+const IDENTITY = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+const SEPIA = [0.393, 0.769, 0.189, 0.349, 0.686, 0.168, 0.272, 0.534, 0.131];
+
+const saturationMatrix = (amount: number): number[] =>
+  [0, 1, 2].flatMap(row => LUMA.map((weight, column) => (1 - amount) * weight + (row === column ? amount : 0)));
+
+const blendMatrices = (a: number[], b: number[], t: number) => a.map((value, i) => value + (b[i] - value) * t);
+
+const FILTERS: Record<FilterPreset, ColorMatrix> = {
+  [FilterPreset.MONO]: { matrix: saturationMatrix(0), offset: [0, 0, 0] },
+  [FilterPreset.NOIR]: { matrix: saturationMatrix(0).map(v => v * 1.5), offset: [-0.25, -0.25, -0.25] },
+  [FilterPreset.SEPIA]: { matrix: SEPIA, offset: [0, 0, 0] },
+  [FilterPreset.VINTAGE]: { matrix: blendMatrices(IDENTITY, SEPIA, 0.5).map(v => v * 0.85), offset: [0.08, 0.05, 0.02] },
+  [FilterPreset.VIVID]: { matrix: saturationMatrix(1.5), offset: [0, 0, 0] },
+  [FilterPreset.FADED]: { matrix: saturationMatrix(0.7).map(v => v * 0.8), offset: [0.12, 0.12, 0.12] },
+};
+
+const NO_FILTER: ColorMatrix = { matrix: IDENTITY, offset: [0, 0, 0] };
+
+export const DEFAULT_CHROMA_KEY: ChromaKey = { color: '#00ff00', tolerance: 0.3, softness: 0.1, spill: 0.5 };
+
+export interface ColorEffects {
+  adjustments: ColorAdjustments;
+  filter?: FilterPreset;
+  lut?: ColorLut;
+  chromaKey?: ChromaKey;
+}
+
+// Blur is excluded: it costs nothing here and is applied when the frame is drawn
+export const hasColorEffects = ({ adjustments, filter, lut, chromaKey }: ColorEffects): boolean =>
+  !!filter || !!lut || !!chromaKey || adjustments.brightness !== 0 || adjustments.contrast !== 0 ||
+  adjustments.saturation !== 0 || adjustments.temperature !== 0 || adjustments.vignette !== 0;
+
+const parseHexColor = (color: string): [number, number, number] => {
+  const value = parseInt(color.replace('#', ''), 16) || 0;
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+};
+
+// --- WebGL ---
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+out vec2 v_uv;
+void main() {
+  v_uv = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp sampler3D;
+
+uniform sampler2D u_source;
+uniform sampler3D u_lut;
+uniform bool u_hasLut;
+uniform float u_lutSize;
+uniform vec3 u_lutMin;
+uniform vec3 u_lutMax;
+uniform mat3 u_filter;
+uniform vec3 u_filterOffset;
+uniform float u_brightness;
+uniform float u_contrast;
+uniform float u_saturation;
+uniform float u_temperature;
+uniform float u_vignette;
+uniform bool u_hasKey;
+uniform vec3 u_keyColor;
+uniform float u_keyTolerance;
+uniform float u_keySoftness;
+uniform float u_keySpill;
+
+in vec2 v_uv;
+out vec4 outColor;
+
+// BT.709 luma and the two color-difference axes, so keying ignores how bright the backdrop is lit
+vec3 toYCbCr(vec3 rgb) {
+  float y = dot(rgb, vec3(0.2126, 0.7152, 0.0722));
+  return vec3(y, (rgb.b - y) / 1.8556, (rgb.r - y) / 1.5748);
+}
+
+vec3 toRgb(vec3 ycc) {
+  float r = ycc.x + 1.5748 * ycc.z;
+  float b = ycc.x + 1.8556 * ycc.y;
+  return vec3(r, (ycc.x - 0.2126 * r - 0.0722 * b) / 0.7152, b);
+}
+
+void main() {
+  vec4 texel = texture(u_source, v_uv);
+  vec3 color = texel.rgb;
+  float alpha = texel.a;
+
+  if (u_hasKey) {
+    vec3 pixel = toYCbCr(color);
+    vec2 key = toYCbCr(u_keyColor).yz;
+    // Chroma distances run up to about 0.7; the controls span half of that
+    float distanceToKey = distance(pixel.yz, key);
+    float tolerance = u_keyTolerance * 0.35;
+    alpha *= smoothstep(tolerance, tolerance + u_keySoftness * 0.35 + 0.0001, distanceToKey);
+
+    // Spill: pull what is left of the key's hue out of the pixel, keeping its brightness
+    vec2 direction = normalize(key + 0.00001);
+    float towardKey = max(dot(pixel.yz, direction), 0.0);
+    pixel.yz -= direction * towardKey * u_keySpill;
+    color = clamp(toRgb(pixel), 0.0, 1.0);
+  }
+
+  color = clamp(u_filter * color + u_filterOffset, 0.0, 1.0);
+
+  color *= 1.0 + u_brightness;
+  color = (color - 0.5) * (1.0 + u_contrast) + 0.5;
+  float luma = dot(color, vec3(0.2126, 0.7152, 0.0722));
+  color = mix(vec3(luma), color, 1.0 + u_saturation);
+  color *= vec3(1.0 + 0.2 * u_temperature, 1.0, 1.0 - 0.2 * u_temperature);
+  color = clamp(color, 0.0, 1.0);
+
+  if (u_hasLut) {
+    vec3 coord = clamp((color - u_lutMin) / (u_lutMax - u_lutMin), 0.0, 1.0);
+    color = texture(u_lut, (coord * (u_lutSize - 1.0) + 0.5) / u_lutSize).rgb;
+  }
+
+  // 0 at the center, 1 in the corners
+  float edge = distance(v_uv, vec2(0.5)) * 1.41421356;
+  color *= 1.0 - u_vignette * smoothstep(0.4, 1.0, edge);
+
+  outColor = vec4(color * alpha, alpha);
+}`;
+
+const UNIFORMS = [
+  'u_source', 'u_lut', 'u_hasLut', 'u_lutSize', 'u_lutMin', 'u_lutMax', 'u_filter', 'u_filterOffset',
+  'u_brightness', 'u_contrast', 'u_saturation', 'u_temperature', 'u_vignette',
+  'u_hasKey', 'u_keyColor', 'u_keyTolerance', 'u_keySoftness', 'u_keySpill',
+] as const;
+
+interface Pipeline {
+  gl: WebGL2RenderingContext;
+  uniforms: Record<typeof UNIFORMS[number], WebGLUniformLocation | null>;
+  sourceTexture: WebGLTexture;
+  luts: Map<string, { lut: ColorLut; texture: WebGLTexture }>;
+}
+
+// Created on first use; null once WebGL2 turns out to be unavailable
+let pipeline: Pipeline | null | undefined;
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string): WebGLShader => {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) throw new Error(gl.getShaderInfoLog(shader) ?? 'Shader failed to compile.');
+  return shader;
+};
+
+const createTexture = (gl: WebGL2RenderingContext, target: number): WebGLTexture => {
+  const texture = gl.createTexture()!;
+  gl.bindTexture(target, texture);
+  gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(target, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(target, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  if (target === gl.TEXTURE_3D) gl.texParameteri(target, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+  return texture;
+};
+
+const createPipeline = (): Pipeline | null => {
+  const gl = document.createElement('canvas').getContext('webgl2', { premultipliedAlpha: true, preserveDrawingBuffer: true });
+  if (!gl) return null;
+  try {
+    const program = gl.createProgram()!;
+    gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+    gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) throw new Error(gl.getProgramInfoLog(program) ?? 'Shader failed to link.');
+    gl.useProgram(program);
+
+    // One quad covering the output
+    gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer());
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(program, 'a_position');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    const uniforms = Object.fromEntries(UNIFORMS.map(name => [name, gl.getUniformLocation(program, name)])) as Pipeline['uniforms'];
+    gl.uniform1i(uniforms.u_source, 0);
+    gl.uniform1i(uniforms.u_lut, 1);
+    // Sources arrive top row first; the quad's texture coordinates start at the bottom
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    return { gl, uniforms, sourceTexture: createTexture(gl, gl.TEXTURE_2D), luts: new Map() };
+  } catch (e) {
+    console.error("Color effects are unavailable", e);
+    return null;
+  }
+};
+
+const bindLut = ({ gl, luts }: Pipeline, lut: ColorLut) => {
+  gl.activeTexture(gl.TEXTURE1);
+  const cached = luts.get(lut.id);
+  if (cached?.lut === lut) {
+    gl.bindTexture(gl.TEXTURE_3D, cached.texture);
+    return;
+  }
+  if (cached) gl.deleteTexture(cached.texture);
+  const texture = createTexture(gl, gl.TEXTURE_3D);
+  // Half floats keep the table's precision and can be filtered without extensions
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+  gl.texImage3D(gl.TEXTURE_3D, 0, gl.RGB16F, lut.size, lut.size, lut.size, 0, gl.RGB, gl.FLOAT, new Float32Array(lut.data));
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+  luts.set(lut.id, { lut, texture });
+};
+
+// Returns a canvas the size of the source holding the graded frame (valid until the next call),
+// or null when the browser has no WebGL2 and the source should be drawn as it is
+export const applyColorEffects = (
+  source: TexImageSource,
+  width: number,
+  height: number,
+  { adjustments, filter, lut, chromaKey }: ColorEffects
+): HTMLCanvasElement | null => {
+  if (pipeline === undefined) pipeline = createPipeline();
+  if (!pipeline) return null;
+  const { gl, uniforms, sourceTexture } = pipeline;
+
+  const canvas = gl.canvas as HTMLCanvasElement;
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  gl.viewport(0, 0, width, height);
+
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, sourceTexture);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+
+  const { matrix, offset } = filter ? FILTERS[filter] : NO_FILTER;
+  gl.uniformMatrix3fv(uniforms.u_filter, true, matrix);
+  gl.uniform3fv(uniforms.u_filterOffset, offset);
+  gl.uniform1f(uniforms.u_brightness, adjustments.brightness);
+  gl.uniform1f(uniforms.u_contrast, adjustments.contrast);
+  gl.uniform1f(uniforms.u_saturation, adjustments.saturation);
+  gl.uniform1f(uniforms.u_temperature, adjustments.temperature);
+  gl.uniform1f(uniforms.u_vignette, adjustments.vignette);
+
+  gl.uniform1i(uniforms.u_hasKey, chromaKey ? 1 : 0);
+  if (chromaKey) {
+    gl.uniform3fv(uniforms.u_keyColor, parseHexColor(chromaKey.color));
+    gl.uniform1f(uniforms.u_keyTolerance, chromaKey.tolerance);
+    gl.uniform1f(uniforms.u_keySoftness, chromaKey.softness);
+    gl.uniform1f(uniforms.u_keySpill, chromaKey.spill);
+  }
+
+  gl.uniform1i(uniforms.u_hasLut, lut ? 1 : 0);
+  if (lut) {
+    bindLut(pipeline, lut);
+    gl.uniform1f(uniforms.u_lutSize, lut.size);
+    gl.uniform3fv(uniforms.u_lutMin, lut.domainMin);
+    gl.uniform3fv(uniforms.u_lutMax, lut.domainMax);
+  }
+
+  gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  return canvas;
+};
@@ -0,0 +1,105 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { Canvas, createCanvas, SKRSContext2D } from '@napi-rs/canvas';
+import { MediaAsset, MediaType, Project, TimelineClip } from '../types';
+import { createProject } from './projectService';
+import { compositeFrame, REFERENCE_WIDTH } from './compositor';
+
+// Renders in Node through Skia; the compositor only draws, so any canvas context will do
+
+const WIDTH = REFERENCE_WIDTH;
+const HEIGHT = WIDTH * 9 / 16;
+
+// A filled canvas standing in for a loaded image, with the size fields the compositor reads
+const solidImage = (color: string, width: number, height: number): Canvas => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, width, height);
+  return Object.assign(canvas, { naturalWidth: width, naturalHeight: height });
+};
+
+const asset = (id: string): MediaAsset => ({ id, type: MediaType.IMAGE, src: '', name: id, duration: 5 });
+
+// A red base clip at 0-4 s under a blue overlay clip at 1-5 s
+const createTestProject = (): Project => {
+  const project = createProject('Compositor Test');
+  const [, pip, main] = project.tracks;
+  const clip = (id: string, trackId: string, startOffset = 0): TimelineClip =>
+    ({ id, assetId: id, trackId, startOffset, mediaStart: 0, duration: 4 });
+  return {
+    ...project,
+    assets: [asset('red'), asset('blue')],
+    timeline: [clip('red', main.id), clip('blue', pip.id, 1)],
+  };
+};
+
+const render = (project: Project, time: number) => {
+  const canvas = createCanvas(WIDTH, HEIGHT);
+  const ctx = canvas.getContext('2d');
+  const sources: Record<string, Canvas> = {
+    red: solidImage('#ff0000', 64, 36),
+    // Square, so the base layer would letterbox it; the overlay crops it to fill its frame
+    blue: solidImage('#0000ff', 50, 50),
+  };
+  const drawn = compositeFrame(ctx as unknown as CanvasRenderingContext2D, project, time, c => sources[c.assetId] as unknown as HTMLImageElement);
+  return { ctx, drawn };
+};
+
+const pixel = (ctx: SKRSContext2D, x: number, y: number) => Array.from(ctx.getImageData(Math.round(x), Math.round(y), 1, 1).data);
+
+const RED = [255, 0, 0, 255];
+const BLUE = [0, 0, 255, 255];
+const BLACK = [0, 0, 0, 255];
+
+// Overlay box: top-right, a third of the width, 16:9, inset 16 reference pixels
+const PIP_WIDTH = WIDTH / 3;
+const PIP_HEIGHT = PIP_WIDTH * 9 / 16;
+const PIP_CENTER = { x: WIDTH - 16 - PIP_WIDTH / 2, y: 16 + PIP_HEIGHT / 2 };
+
+describe('compositeFrame', () => {
+  beforeAll(() => {
+    // Sources are told apart from videos by class; Node has no DOM
+    vi.stubGlobal('HTMLVideoElement', class {});
+  });
+
+  it('draws the base clip full frame', () => {
+    const { ctx } = render(createTestProject(), 0.5);
+    expect(pixel(ctx, 10, 10)).toEqual(RED);
+    expect(pixel(ctx, WIDTH / 2, HEIGHT / 2)).toEqual(RED);
+    expect(pixel(ctx, PIP_CENTER.x, PIP_CENTER.y)).toEqual(RED);
+  });
+
+  it('draws the overlay in its picture-in-picture box over the base', () => {
+    const { ctx, drawn } = render(createTestProject(), 2);
+    expect(pixel(ctx, PIP_CENTER.x, PIP_CENTER.y)).toEqual(BLUE);
+    expect(pixel(ctx, PIP_CENTER.x - PIP_WIDTH / 2 + 6, PIP_CENTER.y)).toEqual(BLUE);
+    expect(pixel(ctx, WIDTH / 2, HEIGHT / 2)).toEqual(RED);
+    expect(pixel(ctx, PIP_CENTER.x - PIP_WIDTH / 2 - 6, PIP_CENTER.y)).toEqual(RED);
+    expect(drawn.map(b => b.clipId)).toEqual(['red', 'blue']);
+    expect(drawn[1]).toMatchObject({ cx: PIP_CENTER.x, cy: PIP_CENTER.y, width: PIP_WIDTH, height: PIP_HEIGHT });
+  });
+
+  it('applies the clip transform', () => {
+    const project = createTestProject();
+    project.timeline = project.timeline.map(c => c.id === 'red' ? { ...c, transform: { x: 0.25, y: 0, scale: 0.5, rotation: 0, opacity: 1, crop: { left: 0, top: 0, right: 0, bottom: 0 } } } : c);
+    const { ctx, drawn } = render(project, 0.5);
+    // Half size, moved right by a quarter of the frame: covers the right half, centered vertically
+    expect(pixel(ctx, WIDTH * 0.45, HEIGHT / 2)).toEqual(BLACK);
+    expect(pixel(ctx, WIDTH * 0.75, HEIGHT / 2)).toEqual(RED);
+    expect(pixel(ctx, WIDTH * 0.75, HEIGHT * 0.2)).toEqual(BLACK);
+    expect(drawn[0]).toMatchObject({ cx: WIDTH * 0.75, cy: HEIGHT / 2, width: WIDTH / 2, height: HEIGHT / 2 });
+  });
+
+  it('draws black where no clip is active', () => {
+    const { ctx, drawn } = render(createTestProject(), 5.5);
+    expect(pixel(ctx, WIDTH / 2, HEIGHT / 2)).toEqual(BLACK);
+    expect(drawn).toEqual([]);
+  });
+
+  it('skips hidden tracks', () => {
+    const project = createTestProject();
+    project.tracks = project.tracks.map(t => t.name === 'PIP' ? { ...t, hidden: true } : t);
+    const { ctx } = render(project, 2);
+    expect(pixel(ctx, PIP_CENTER.x, PIP_CENTER.y)).toEqual(RED);
+  });
+});
@@ -0,0 +1,375 @@
+import { Project, MediaAsset, TimelineClip, Track, TrackKind, MediaType, TransitionType, ClipTransform, ColorAdjustments, CropRect } from '../types';
+import { getOrderedTracks, getBaseVideoTrack } from './projectService';
+import { getPreviousAdjacentClip, getTransitionDuration } from './timelineOps';
+import { getAnimatedValues } from './keyframes';
+import { drawStyledText, getTextAnimationState, getTextStyle, placeAtCenter, SHOWN, SUBTITLE_TEXT_STYLE } from './textRenderer';
+import { getCueDisplayText } from './subtitleService';
+import { getClipMediaTime } from './clipSpeed';
+import { applyColorEffects, hasColorEffects, ColorEffects } from './colorEffects';
+
+// Shared by the live preview and export, so both produce the same pixels for a given time.
+// Drawing is synchronous: callers are responsible for seeking video sources before compositing.
+
+export type VisualSource = HTMLVideoElement | HTMLImageElement;
+
+// Resolves the element to draw for a clip. Returning undefined skips the clip (e.g. media still loading).
+export type SourceResolver = (clip: TimelineClip, asset: MediaAsset) => VisualSource | undefined;
+
+export interface ActiveClip {
+  clip: TimelineClip;
+  asset: MediaAsset;
+  track: Track;
+  mediaTime: number; // Position in the source, clamped to the media that exists
+}
+
+// What one track shows at a time: a single clip, or two clips blending through a transition
+export interface TrackFrame {
+  track: Track;
+  layers: ActiveClip[]; // [outgoing, incoming] while a transition runs
+  transition: { type: TransitionType; progress: number } | null;
+}
+
+// Layout measurements are defined against the editor's preview width and scaled to the target canvas.
+export const REFERENCE_WIDTH = 896;
+
+// Position inside the source media for a timeline time
+export const getMediaTime = (clip: TimelineClip, time: number): number => getClipMediaTime(clip, time - clip.startOffset);
+
+// Transitions read past a clip's trimmed range; hold the first/last frame where the source runs out
+const clampMediaTime = (asset: MediaAsset, mediaTime: number): number => {
+  if (asset.type !== MediaType.VIDEO && asset.type !== MediaType.AUDIO) return mediaTime;
+  return Math.max(0, Math.min(mediaTime, asset.duration - 0.001));
+};
+
+const toActiveClip = (project: Project, track: Track, clip: TimelineClip, time: number): ActiveClip | null => {
+  const asset = project.assets.find(a => a.id === clip.assetId);
+  return asset ? { clip, asset, track, mediaTime: clampMediaTime(asset, getMediaTime(clip, time)) } : null;
+};
+
+export const getActiveClip = (project: Project, track: Track, time: number): ActiveClip | null => {
+  const clip = project.timeline.find(
+    c => c.trackId === track.id && time >= c.startOffset && time < c.startOffset + c.duration
+  );
+  return clip ? toActiveClip(project, track, clip, time) : null;
+};
+
+// Transition windows take priority over the plain active clip
+export const getTrackFrame = (project: Project, track: Track, time: number): TrackFrame | null => {
+  for (const incoming of project.timeline) {
+    if (incoming.trackId !== track.id || !incoming.transitionIn) continue;
+    const outgoing = getPreviousAdjacentClip(project.timeline, incoming);
+    if (!outgoing) continue;
+
+    const duration = getTransitionDuration(outgoing, incoming);
+    const windowStart = incoming.startOffset - duration / 2;
+    if (duration <= 0 || time < windowStart || time >= windowStart + duration) continue;
+
+    const from = toActiveClip(project, track, outgoing, time);
+    const to = toActiveClip(project, track, incoming, time);
+    if (!from || !to) continue;
+    return {
+      track,
+      layers: [from, to],
+      transition: { type: incoming.transitionIn.type, progress: (time - windowStart) / duration },
+    };
+  }
+
+  const active = getActiveClip(project, track, time);
+  return active ? { track, layers: [active], transition: null } : null;
+};
+
+// Visible tracks of a kind in compositing order: bottom of the timeline first
+const getLayerTracks = (project: Project, kinds: TrackKind[]): Track[] =>
+  getOrderedTracks(project).filter(t => kinds.includes(t.kind) && !t.hidden).reverse();
+
+export const getSourceSize = (source: VisualSource) =>
+  source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.naturalWidth, height: source.naturalHeight };
+
+// Where a clip ended up on the canvas, in canvas pixels, so the preview can draw handles over it
+export interface LayerBounds {
+  clipId: string;
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+  rotation: number; // Degrees
+}
+
+// A source ready to draw: color effects applied, blur still to do (in canvas pixels)
+interface LayerImage {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+  blur: number;
+  keyed: boolean; // Has transparent areas that must show the tracks below
+}
+
+// The part of the source left after cropping, in source pixels
+const getCroppedRect = ({ width, height }: LayerImage, crop: CropRect) => {
+  const left = Math.min(crop.left, 0.99);
+  const top = Math.min(crop.top, 0.99);
+  return {
+    sx: width * left,
+    sy: height * top,
+    sw: Math.max(1, width * (1 - left - Math.min(crop.right, 0.99 - left))),
+    sh: Math.max(1, height * (1 - top - Math.min(crop.bottom, 0.99 - top))),
+  };
+};
+
+// Moves the origin to the transformed center of a default box; everything after draws around (0, 0)
+const applyTransform = (
+  ctx: CanvasRenderingContext2D,
+  transform: ClipTransform,
+  clipId: string,
+  box: { cx: number; cy: number; width: number; height: number }
+): LayerBounds => {
+  const { width, height } = ctx.canvas;
+  const cx = box.cx + transform.x * width;
+  const cy = box.cy + transform.y * height;
+  ctx.globalAlpha *= transform.opacity;
+  ctx.translate(cx, cy);
+  ctx.rotate((transform.rotation * Math.PI) / 180);
+  ctx.scale(transform.scale, transform.scale);
+  return {
+    clipId,
+    cx,
+    cy,
+    width: box.width * transform.scale,
+    height: box.height * transform.scale,
+    rotation: transform.rotation,
+  };
+};
+
+const drawLayerImage = (ctx: CanvasRenderingContext2D, layer: LayerImage, ...rects: [number, number, number, number, number, number, number, number]) => {
+  if (layer.blur > 0) ctx.filter = `blur(${layer.blur}px)`;
+  ctx.drawImage(layer.image, ...rects);
+  ctx.filter = 'none';
+};
+
+// Full frame, letterboxed to the cropped source's aspect ratio
+const drawMain = (ctx: CanvasRenderingContext2D, clipId: string, transform: ClipTransform, layer: LayerImage): LayerBounds | null => {
+  const { width, height } = ctx.canvas;
+  if (!layer.width || !layer.height) return null;
+
+  const { sx, sy, sw, sh } = getCroppedRect(layer, transform.crop);
+  const fit = Math.min(width / sw, height / sh);
+  const w = sw * fit;
+  const h = sh * fit;
+
+  ctx.save();
+  const bounds = applyTransform(ctx, transform, clipId, { cx: width / 2, cy: height / 2, width: w, height: h });
+  drawLayerImage(ctx, layer, sx, sy, sw, sh, -w / 2, -h / 2, w, h);
+  ctx.restore();
+  return bounds;
+};
+
+// Top-right, a third of the width, 16:9 with a rounded frame; the cropped source covers the frame
+const drawPip = (
+  ctx: CanvasRenderingContext2D,
+  clipId: string,
+  transform: ClipTransform,
+  layer: LayerImage,
+  unit: number
+): LayerBounds | null => {
+  const { width } = ctx.canvas;
+  if (!layer.width || !layer.height) return null;
+
+  const inset = 16 * unit;
+  const w = width / 3;
+  const h = w * 9 / 16;
+  const radius = 8 * unit;
+
+  const { sx, sy, sw, sh } = getCroppedRect(layer, transform.crop);
+  const fill = Math.max(w / sw, h / sh);
+  const dw = sw * fill;
+  const dh = sh * fill;
+
+  ctx.save();
+  const bounds = applyTransform(ctx, transform, clipId, { cx: width - inset - w / 2, cy: inset + h / 2, width: w, height: h });
+
+  // A keyed clip is cut out of its backdrop, so it gets no box behind it or frame around it
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(-w / 2, -h / 2, w, h, radius);
+  if (!layer.keyed) {
+    ctx.fillStyle = '#000';
+    ctx.fill();
+  }
+  ctx.clip();
+  drawLayerImage(ctx, layer, sx, sy, sw, sh, -dw / 2, -dh / 2, dw, dh);
+  ctx.restore();
+
+  if (!layer.keyed) {
+    ctx.beginPath();
+    ctx.roundRect(-w / 2, -h / 2, w, h, radius);
+    ctx.lineWidth = 2 * unit;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+    ctx.stroke();
+  }
+  ctx.restore();
+  return bounds;
+};
+
+const drawText = (
+  ctx: CanvasRenderingContext2D,
+  active: ActiveClip,
+  time: number,
+  unit: number
+): LayerBounds => {
+  const { clip, asset } = active;
+  const { transform, textColor } = getAnimatedValues(clip, asset, time);
+  const animation = getTextAnimationState(clip, time - clip.startOffset);
+  return drawStyledText(ctx, asset.textContent ?? '', getTextStyle(asset.textStyle), textColor, animation, unit,
+    box => applyTransform(ctx, transform, clip.id, box));
+};
+
+// Cues have no transform or animation, so they are not returned for on-canvas handles
+const drawSubtitle = (ctx: CanvasRenderingContext2D, active: ActiveClip, unit: number) => {
+  const text = getCueDisplayText(active.clip.cue!);
+  if (text.trim()) drawStyledText(ctx, text, SUBTITLE_TEXT_STYLE, SUBTITLE_TEXT_STYLE.color, SHOWN, unit, placeAtCenter(ctx));
+};
+
+// Chroma keys only apply on overlay tracks, where there is something underneath to show
+const getLayerImage = (
+  project: Project,
+  clip: TimelineClip,
+  source: VisualSource,
+  adjustments: ColorAdjustments,
+  isOverlay: boolean,
+  unit: number
+): LayerImage => {
+  const { width, height } = getSourceSize(source);
+  const effects: ColorEffects = {
+    adjustments,
+    filter: clip.filter,
+    lut: clip.lutId ? project.luts?.find(l => l.id === clip.lutId) : undefined,
+    chromaKey: isOverlay ? clip.chromaKey : undefined,
+  };
+  const graded = width && height && hasColorEffects(effects) ? applyColorEffects(source, width, height, effects) : null;
+  return {
+    image: graded ?? source,
+    width,
+    height,
+    blur: Math.max(0, adjustments.blur) * unit,
+    keyed: !!graded && !!effects.chromaKey,
+  };
+};
+
+// Visual clips that need a decoded frame at this time, so callers know what to seek.
+export const getActiveVisualClips = (project: Project, time: number): ActiveClip[] =>
+  getLayerTracks(project, [TrackKind.VIDEO])
+    .flatMap(track => getTrackFrame(project, track, time)?.layers ?? [])
+    .filter(active => active.asset.type === MediaType.VIDEO || active.asset.type === MediaType.IMAGE);
+
+// Offscreen layers for transitions, one pair per output canvas
+const scratchLayers = new WeakMap<CanvasRenderingContext2D, [CanvasRenderingContext2D, CanvasRenderingContext2D]>();
+
+const getScratchLayers = (ctx: CanvasRenderingContext2D): [CanvasRenderingContext2D, CanvasRenderingContext2D] => {
+  let layers = scratchLayers.get(ctx);
+  if (!layers) {
+    const create = () => document.createElement('canvas').getContext('2d')!;
+    layers = [create(), create()];
+    scratchLayers.set(ctx, layers);
+  }
+  for (const layer of layers) {
+    if (layer.canvas.width !== ctx.canvas.width || layer.canvas.height !== ctx.canvas.height) {
+      layer.canvas.width = ctx.canvas.width;
+      layer.canvas.height = ctx.canvas.height;
+    }
+    layer.clearRect(0, 0, layer.canvas.width, layer.canvas.height);
+  }
+  return layers;
+};
+
+const drawTransition = (
+  ctx: CanvasRenderingContext2D,
+  from: HTMLCanvasElement,
+  to: HTMLCanvasElement,
+  type: TransitionType,
+  progress: number
+) => {
+  const { width, height } = ctx.canvas;
+  ctx.save();
+  switch (type) {
+    case TransitionType.CROSSFADE:
+      ctx.drawImage(from, 0, 0);
+      ctx.globalAlpha = progress;
+      ctx.drawImage(to, 0, 0);
+      break;
+    case TransitionType.DIP_TO_BLACK:
+      // Fade the outgoing layer out, then the incoming one in, over whatever is underneath
+      ctx.globalAlpha = progress < 0.5 ? 1 - progress * 2 : progress * 2 - 1;
+      ctx.drawImage(progress < 0.5 ? from : to, 0, 0);
+      break;
+    case TransitionType.WIPE:
+      ctx.drawImage(from, 0, 0);
+      ctx.beginPath();
+      ctx.rect(0, 0, width * progress, height);
+      ctx.clip();
+      ctx.drawImage(to, 0, 0);
+      break;
+    case TransitionType.SLIDE:
+      ctx.drawImage(from, -width * progress, 0);
+      ctx.drawImage(to, width * (1 - progress), 0);
+      break;
+  }
+  ctx.restore();
+};
+
+// Returns where each drawn clip landed, top-most last
+export const compositeFrame = (
+  ctx: CanvasRenderingContext2D,
+  project: Project,
+  time: number,
+  resolveSource: SourceResolver
+): LayerBounds[] => {
+  const { width, height } = ctx.canvas;
+  const unit = width / REFERENCE_WIDTH;
+  const drawn: LayerBounds[] = [];
+
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+
+  const baseTrackId = getBaseVideoTrack(project)?.id;
+
+  for (const track of getLayerTracks(project, [TrackKind.VIDEO, TrackKind.TEXT, TrackKind.SUBTITLE])) {
+    if (track.kind === TrackKind.TEXT) {
+      const active = getActiveClip(project, track, time);
+      if (active?.asset.textContent) drawn.push(drawText(ctx, active, time, unit));
+      continue;
+    }
+    if (track.kind === TrackKind.SUBTITLE) {
+      const active = getActiveClip(project, track, time);
+      if (active?.clip.cue) drawSubtitle(ctx, active, unit);
+      continue;
+    }
+
+    const frame = getTrackFrame(project, track, time);
+    if (!frame) continue;
+
+    const drawLayer = (target: CanvasRenderingContext2D, active: ActiveClip) => {
+      const source = resolveSource(active.clip, active.asset);
+      if (!source) return;
+      const { transform, adjustments } = getAnimatedValues(active.clip, active.asset, time);
+      const layer = getLayerImage(project, active.clip, source, adjustments, track.id !== baseTrackId, unit);
+      const bounds = track.id === baseTrackId
+        ? drawMain(target, active.clip.id, transform, layer)
+        : drawPip(target, active.clip.id, transform, layer, unit);
+      if (bounds) drawn.push(bounds);
+    };
+
+    if (!frame.transition) {
+      drawLayer(ctx, frame.layers[0]);
+      continue;
+    }
+
+    const [fromLayer, toLayer] = getScratchLayers(ctx);
+    drawLayer(fromLayer, frame.layers[0]);
+    drawLayer(toLayer, frame.layers[1]);
+    drawTransition(ctx, fromLayer.canvas, toLayer.canvas, frame.transition.type, frame.transition.progress);
+  }
+
+  return drawn;
+};
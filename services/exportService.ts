@@ -0,0 +1,352 @@
+import { Muxer, ArrayBufferTarget } from 'webm-muxer';
+import { Project, ProjectSettings, MediaAsset, MediaType, TimelineClip } from '../types';
+import { compositeFrame, getActiveVisualClips, VisualSource } from './compositor';
+import { getAudibleClips, getClipGain, getGainCurve, hasGainAutomation } from './audioMixer';
+import { getClipSpeed, getSourceDuration, isRetimed } from './clipSpeed';
+import { timeStretch } from './timeStretch';
+import { PROJECT_FRAME_RATES } from './projectService';
+
+export interface ExportSettings {
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export interface ExportOptions {
+  onProgress?: (progress: number) => void; // 0..1
+  signal?: AbortSignal;
+}
+
+// Smaller renditions, by their short side
+const EXPORT_SHORT_SIDES = [2160, 1440, 1080, 720, 480];
+
+// The project's own size, then smaller sizes at its aspect ratio
+export const getExportResolutions = ({ width, height }: ProjectSettings) => {
+  const shortSide = Math.min(width, height);
+  const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+  return [
+    { label: 'Project', width, height },
+    ...EXPORT_SHORT_SIDES.filter(side => side < shortSide).map(side => ({
+      label: `${side}p`,
+      width: even((width * side) / shortSide),
+      height: even((height * side) / shortSide),
+    })),
+  ];
+};
+
+// The project's own rate, then the other standard rates; any rate samples the timeline at its own frame times
+export const getExportFrameRates = ({ frameRate }: ProjectSettings) =>
+  [frameRate, ...PROJECT_FRAME_RATES.filter(fps => fps !== frameRate)];
+
+const AUDIO_SAMPLE_RATE = 48000; // Opus only accepts 48 kHz
+const AUDIO_CHANNELS = 2;
+const AUDIO_CHUNK_FRAMES = 4800;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_ENCODE_QUEUE = 8;
+// A seek that takes longer than this is treated as stuck
+const SEEK_TIMEOUT_MS = 10000;
+
+export const isExportSupported = (): boolean =>
+  typeof window !== 'undefined' && 'VideoEncoder' in window && 'VideoFrame' in window;
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+};
+
+// Settles like `promise`, or rejects as soon as the export is cancelled for work that can't be stopped
+// (the work itself runs on, but its result is dropped)
+const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+  return new Promise((resolve, reject) => {
+    const handleAbort = () => reject(new DOMException('Export cancelled', 'AbortError'));
+    signal.addEventListener('abort', handleAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', handleAbort));
+  });
+};
+
+// --- Media Sources ---
+
+const loadVisualSource = (asset: MediaAsset): Promise<VisualSource> =>
+  new Promise((resolve, reject) => {
+    if (asset.type === MediaType.VIDEO) {
+      const video = document.createElement('video');
+      video.muted = true;
+      video.playsInline = true;
+      video.preload = 'auto';
+      video.onloadeddata = () => resolve(video);
+      video.onerror = () => reject(new Error(`Could not load "${asset.name}" for export.`));
+      video.src = asset.src;
+    } else {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error(`Could not load "${asset.name}" for export.`));
+      img.src = asset.src;
+    }
+  });
+
+// Videos get one element per clip, since both sides of a transition can come from the same file.
+// Images never change, so they are shared per asset.
+const getSourceKey = (clip: TimelineClip, asset: MediaAsset) =>
+  asset.type === MediaType.VIDEO ? clip.id : asset.id;
+
+const releaseSource = (source: VisualSource) => {
+  if (source instanceof HTMLVideoElement) {
+    source.removeAttribute('src');
+    source.load();
+  }
+};
+
+// Fails instead of hanging when the browser can't decode the frame or the export is cancelled mid-seek
+const seekVideo = (video: HTMLVideoElement, time: number, asset: MediaAsset, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const target = Math.max(0, Math.min(time, video.duration - 0.001));
+    if (Math.abs(video.currentTime - target) < 0.0005) {
+      resolve();
+      return;
+    }
+    const finish = (error?: Error) => {
+      clearTimeout(timer);
+      video.removeEventListener('seeked', handleSeeked);
+      video.removeEventListener('error', handleError);
+      signal?.removeEventListener('abort', handleAbort);
+      if (error) reject(error);
+      else resolve();
+    };
+    const handleSeeked = () => finish();
+    const handleError = () => finish(new Error(`Could not read "${asset.name}" at ${target.toFixed(2)}s for export.`));
+    const handleAbort = () => finish(new DOMException('Export cancelled', 'AbortError'));
+    const timer = setTimeout(
+      () => finish(new Error(`Timed out reading "${asset.name}" at ${target.toFixed(2)}s for export.`)),
+      SEEK_TIMEOUT_MS
+    );
+    video.addEventListener('seeked', handleSeeked);
+    video.addEventListener('error', handleError);
+    signal?.addEventListener('abort', handleAbort);
+    video.currentTime = target;
+  });
+
+// Seek every visible video to its exact frame, then composite with the same rules as the preview.
+// Sources are loaded when first needed and video elements are dropped once their clip has finished.
+const renderFrame = async (
+  ctx: CanvasRenderingContext2D,
+  project: Project,
+  sources: Map<string, VisualSource>,
+  time: number,
+  signal?: AbortSignal
+) => {
+  const active = getActiveVisualClips(project, time);
+  for (const { clip, asset } of active) {
+    const key = getSourceKey(clip, asset);
+    if (!sources.has(key)) sources.set(key, await untilAborted(loadVisualSource(asset), signal));
+  }
+
+  const activeKeys = new Set(active.map(({ clip, asset }) => getSourceKey(clip, asset)));
+  sources.forEach((source, key) => {
+    if (!(source instanceof HTMLVideoElement) || activeKeys.has(key)) return;
+    const clip = project.timeline.find(c => c.id === key);
+    if (!clip || clip.startOffset + clip.duration < time) {
+      releaseSource(source);
+      sources.delete(key);
+    }
+  });
+
+  await Promise.all(active.map(({ clip, asset, mediaTime }) => {
+    const source = sources.get(getSourceKey(clip, asset));
+    return source instanceof HTMLVideoElement ? seekVideo(source, mediaTime, asset, signal) : undefined;
+  }));
+  compositeFrame(ctx, project, time, (clip, asset) => sources.get(getSourceKey(clip, asset)));
+};
+
+// --- Audio ---
+
+// Decoded audio per asset; null for videos without a sound track
+const decodeAudio = async (ctx: BaseAudioContext, asset: MediaAsset, signal?: AbortSignal): Promise<AudioBuffer | null> => {
+  const data = await (await fetch(asset.src, { signal })).arrayBuffer();
+  try {
+    return await untilAborted(ctx.decodeAudioData(data), signal);
+  } catch (e) {
+    throwIfAborted(signal);
+    if (asset.type === MediaType.VIDEO) return null;
+    throw new Error(`Could not decode the audio of "${asset.name}" for export.`);
+  }
+};
+
+// The clip's stretch of source as it should sound: reversed and/or sped up at its original pitch
+const retimeAudio = (ctx: BaseAudioContext, buffer: AudioBuffer, clip: TimelineClip): AudioBuffer => {
+  const from = Math.min(Math.round(clip.mediaStart * buffer.sampleRate), buffer.length);
+  const to = Math.min(Math.round((clip.mediaStart + getSourceDuration(clip)) * buffer.sampleRate), buffer.length);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => {
+    const samples = buffer.getChannelData(c).slice(from, to);
+    return clip.reversed ? samples.reverse() : samples;
+  });
+
+  const stretched = timeStretch(channels, getClipSpeed(clip), buffer.sampleRate);
+  const result = ctx.createBuffer(buffer.numberOfChannels, Math.max(1, stretched[0].length), buffer.sampleRate);
+  stretched.forEach((samples, c) => result.copyToChannel(samples, c));
+  return result;
+};
+
+// Mixes every audible clip offline, with the same gains as the preview mixer,
+// so the soundtrack is sample-accurate regardless of encode speed.
+const renderAudioMix = async (project: Project, duration: number, signal?: AbortSignal): Promise<AudioBuffer | null> => {
+  const audioClips = getAudibleClips(project);
+  if (audioClips.length === 0) return null;
+
+  const ctx = new OfflineAudioContext(AUDIO_CHANNELS, Math.ceil(duration * AUDIO_SAMPLE_RATE), AUDIO_SAMPLE_RATE);
+  const decoded = new Map<string, AudioBuffer | null>();
+  let hasSound = false;
+
+  for (const clip of audioClips) {
+    if (!decoded.has(clip.assetId)) {
+      decoded.set(clip.assetId, await decodeAudio(ctx, project.assets.find(a => a.id === clip.assetId)!, signal));
+    }
+    throwIfAborted(signal);
+    const buffer = decoded.get(clip.assetId);
+    if (!buffer) continue;
+    hasSound = true;
+
+    const source = ctx.createBufferSource();
+    source.buffer = isRetimed(clip) ? retimeAudio(ctx, buffer, clip) : buffer;
+    const gain = ctx.createGain();
+    if (hasGainAutomation(clip)) {
+      gain.gain.setValueCurveAtTime(getGainCurve(clip), clip.startOffset, clip.duration);
+    } else {
+      gain.gain.value = getClipGain(clip, clip.startOffset);
+    }
+    source.connect(gain).connect(ctx.destination);
+    source.start(clip.startOffset, isRetimed(clip) ? 0 : clip.mediaStart, clip.duration);
+  }
+
+  return hasSound ? untilAborted(ctx.startRendering(), signal) : null;
+};
+
+const encodeAudio = async (buffer: AudioBuffer, muxer: Muxer<ArrayBufferTarget>) => {
+  let encoderError: unknown = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: (e) => { encoderError = e; },
+  });
+  encoder.configure({
+    codec: 'opus',
+    sampleRate: AUDIO_SAMPLE_RATE,
+    numberOfChannels: AUDIO_CHANNELS,
+    bitrate: 128_000,
+  });
+
+  for (let offset = 0; offset < buffer.length; offset += AUDIO_CHUNK_FRAMES) {
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, buffer.length - offset);
+    const planar = new Float32Array(frames * AUDIO_CHANNELS);
+    for (let channel = 0; channel < AUDIO_CHANNELS; channel++) {
+      planar.set(buffer.getChannelData(channel).subarray(offset, offset + frames), channel * frames);
+    }
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: AUDIO_SAMPLE_RATE,
+      numberOfFrames: frames,
+      numberOfChannels: AUDIO_CHANNELS,
+      timestamp: Math.round((offset / AUDIO_SAMPLE_RATE) * 1e6),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+
+  await encoder.flush();
+  encoder.close();
+  if (encoderError) throw encoderError;
+};
+
+// --- Video ---
+
+const pickVideoCodec = async (settings: ExportSettings) => {
+  const candidates = [
+    { codec: 'vp09.00.10.08', muxerCodec: 'V_VP9' },
+    { codec: 'vp8', muxerCodec: 'V_VP8' },
+  ];
+  for (const candidate of candidates) {
+    const { supported } = await VideoEncoder.isConfigSupported({
+      codec: candidate.codec,
+      width: settings.width,
+      height: settings.height,
+    });
+    if (supported) return candidate;
+  }
+  throw new Error("This browser cannot encode WebM video.");
+};
+
+export const exportProject = async (
+  project: Project,
+  settings: ExportSettings,
+  { onProgress, signal }: ExportOptions = {}
+): Promise<Blob> => {
+  if (!isExportSupported()) throw new Error("Video export requires a browser with WebCodecs support.");
+
+  const duration = project.timeline.reduce((max, clip) => Math.max(max, clip.startOffset + clip.duration), 0);
+  if (duration <= 0) throw new Error("The timeline is empty.");
+
+  const { codec, muxerCodec } = await pickVideoCodec(settings);
+  const audioBuffer = await renderAudioMix(project, duration, signal);
+  throwIfAborted(signal);
+  if (audioBuffer && !('AudioEncoder' in window)) throw new Error("This browser cannot encode audio for export.");
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: muxerCodec, width: settings.width, height: settings.height, frameRate: settings.frameRate },
+    audio: audioBuffer ? { codec: 'A_OPUS', sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS } : undefined,
+  });
+
+  // Visual media gets its own elements so export never disturbs the live preview
+  const sources = new Map<string, VisualSource>();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = settings.width;
+  canvas.height = settings.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create a canvas for export.");
+
+  let encoderError: unknown = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (e) => { encoderError = e; },
+  });
+  encoder.configure({
+    codec,
+    width: settings.width,
+    height: settings.height,
+    framerate: settings.frameRate,
+    bitrate: settings.width * settings.height * settings.frameRate * 0.1,
+  });
+
+  try {
+    const totalFrames = Math.ceil(duration * settings.frameRate);
+    const frameDuration = 1e6 / settings.frameRate;
+    const keyFrameInterval = Math.round(settings.frameRate * KEYFRAME_INTERVAL_SECONDS);
+
+    for (let i = 0; i < totalFrames; i++) {
+      throwIfAborted(signal);
+      if (encoderError) throw encoderError;
+
+      await renderFrame(ctx, project, sources, i / settings.frameRate, signal);
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(i * frameDuration), duration: Math.round(frameDuration) });
+      encoder.encode(frame, { keyFrame: i % keyFrameInterval === 0 });
+      frame.close();
+
+      // Let the encoder drain so frames don't pile up in memory
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(resolve => encoder.addEventListener('dequeue', resolve, { once: true }));
+      }
+      onProgress?.((i + 1) / totalFrames);
+    }
+
+    await encoder.flush();
+    if (audioBuffer) await encodeAudio(audioBuffer, muxer);
+    throwIfAborted(signal);
+
+    muxer.finalize();
+    return new Blob([muxer.target.buffer], { type: 'video/webm' });
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+    sources.forEach(releaseSource);
+  }
+};
@@ -0,0 +1,268 @@
+import { TimelineClip, MediaAsset, ClipTransform, ColorAdjustments, AdjustmentProperty, Keyframe, AnimatableProperty, EasingType } from '../types';
+
+// Keyframes are stored per property on the clip, in seconds from the clip start.
+// Between two keys the earlier key's easing shapes the curve; before the first and after the last, the nearest key holds.
+
+export const DEFAULT_TRANSFORM: ClipTransform = {
+  x: 0,
+  y: 0,
+  scale: 1,
+  rotation: 0,
+  opacity: 1,
+  crop: { left: 0, top: 0, right: 0, bottom: 0 },
+};
+
+export const DEFAULT_ADJUSTMENTS: ColorAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  temperature: 0,
+  vignette: 0,
+  blur: 0,
+};
+
+export const ADJUSTMENT_PROPERTIES = Object.keys(DEFAULT_ADJUSTMENTS) as AdjustmentProperty[];
+
+export const DEFAULT_TEXT_COLOR = '#ffffff';
+
+// Same curve as CSS 'ease-in-out'
+const EASE_CURVE: [number, number, number, number] = [0.42, 0, 0.58, 1];
+export const DEFAULT_BEZIER: [number, number, number, number] = [0.25, 0.1, 0.25, 1];
+
+// Keys closer than this to a time are treated as sitting on it
+const KEYFRAME_TOLERANCE = 0.01;
+
+export type NumericProperty = Exclude<AnimatableProperty, 'textColor'>;
+
+export interface AnimatedValues {
+  transform: ClipTransform;
+  volume: number;
+  textColor: string;
+  adjustments: ColorAdjustments;
+}
+
+export const getClipTransform = (clip: TimelineClip): ClipTransform => clip.transform ?? DEFAULT_TRANSFORM;
+
+export const getClipAdjustments = (clip: TimelineClip): ColorAdjustments => ({ ...DEFAULT_ADJUSTMENTS, ...clip.adjustments });
+
+const isAdjustment = (property: AnimatableProperty): property is AdjustmentProperty =>
+  (ADJUSTMENT_PROPERTIES as string[]).includes(property);
+
+// --- Curves ---
+
+// CSS-style cubic bezier from (0,0) to (1,1): finds the curve parameter for x, then returns y
+export const cubicBezier = (x1: number, y1: number, x2: number, y2: number, x: number): number => {
+  const sample = (a: number, b: number, t: number) => 3 * a * (1 - t) ** 2 * t + 3 * b * (1 - t) * t ** 2 + t ** 3;
+  const slope = (a: number, b: number, t: number) => 3 * a * (1 - t) ** 2 + 6 * (b - a) * (1 - t) * t + 3 * (1 - b) * t ** 2;
+
+  let t = x;
+  for (let i = 0; i < 8; i++) {
+    const error = sample(x1, x2, t) - x;
+    if (Math.abs(error) < 1e-6) return sample(y1, y2, t);
+    const d = slope(x1, x2, t);
+    if (Math.abs(d) < 1e-6) break;
+    t -= error / d;
+  }
+
+  // Newton failed to converge (flat spot); bisection always does
+  let lo = 0;
+  let hi = 1;
+  t = x;
+  for (let i = 0; i < 30; i++) {
+    if (sample(x1, x2, t) < x) lo = t;
+    else hi = t;
+    t = (lo + hi) / 2;
+  }
+  return sample(y1, y2, t);
+};
+
+const ease = (key: Keyframe, t: number): number => {
+  switch (key.easing) {
+    case EasingType.LINEAR: return t;
+    case EasingType.EASE: return cubicBezier(...EASE_CURVE, t);
+    case EasingType.BEZIER: return cubicBezier(...(key.bezier ?? DEFAULT_BEZIER), t);
+  }
+};
+
+const parseColor = (color: string): [number, number, number] => {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+  const value = parseInt(full, 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const formatColor = (rgb: number[]): string =>
+  '#' + rgb.map(c => Math.round(Math.min(Math.max(c, 0), 255)).toString(16).padStart(2, '0')).join('');
+
+const interpolate = (from: number | string, to: number | string, t: number): number | string => {
+  if (typeof from === 'number' && typeof to === 'number') return from + (to - from) * t;
+  const a = parseColor(String(from));
+  const b = parseColor(String(to));
+  return formatColor(a.map((c, i) => c + (b[i] - c) * t));
+};
+
+// Value of a curve at a time relative to the clip start
+export const evaluateKeyframes = (keys: Keyframe[], localTime: number): number | string | undefined => {
+  if (keys.length === 0) return undefined;
+  if (localTime <= keys[0].time) return keys[0].value;
+  const last = keys[keys.length - 1];
+  if (localTime >= last.time) return last.value;
+
+  const index = keys.findIndex(k => k.time > localTime) - 1;
+  const from = keys[index];
+  const to = keys[index + 1];
+  const progress = (localTime - from.time) / (to.time - from.time);
+  return interpolate(from.value, to.value, ease(from, progress));
+};
+
+// --- Evaluation ---
+
+const getStaticNumber = (clip: TimelineClip, property: NumericProperty): number => {
+  if (property === 'volume') return clip.volume ?? 1;
+  if (isAdjustment(property)) return getClipAdjustments(clip)[property];
+  return getClipTransform(clip)[property];
+};
+
+export const getStaticValue = (clip: TimelineClip, asset: MediaAsset | undefined, property: AnimatableProperty): number | string =>
+  property === 'textColor' ? asset?.textStyle?.color ?? DEFAULT_TEXT_COLOR : getStaticNumber(clip, property);
+
+// Every animatable value of a clip at a timeline time, keyframes applied over the static values
+export const getAnimatedValues = (clip: TimelineClip, asset: MediaAsset | undefined, time: number): AnimatedValues => {
+  const localTime = time - clip.startOffset;
+  const value = <T extends number | string>(property: AnimatableProperty): T => {
+    const keyed = clip.keyframes?.[property];
+    return (keyed?.length ? evaluateKeyframes(keyed, localTime) : getStaticValue(clip, asset, property)) as T;
+  };
+
+  return {
+    transform: {
+      ...getClipTransform(clip),
+      x: value('x'),
+      y: value('y'),
+      scale: value('scale'),
+      rotation: value('rotation'),
+      opacity: value('opacity'),
+    },
+    volume: value('volume'),
+    textColor: value('textColor'),
+    adjustments: {
+      brightness: value('brightness'),
+      contrast: value('contrast'),
+      saturation: value('saturation'),
+      temperature: value('temperature'),
+      vignette: value('vignette'),
+      blur: value('blur'),
+    },
+  };
+};
+
+// --- Editing ---
+
+export const hasKeyframes = (clip: TimelineClip, property: AnimatableProperty): boolean =>
+  !!clip.keyframes?.[property]?.length;
+
+export const getKeyframeAt = (clip: TimelineClip, property: AnimatableProperty, localTime: number): Keyframe | undefined =>
+  clip.keyframes?.[property]?.find(k => Math.abs(k.time - localTime) < KEYFRAME_TOLERANCE);
+
+// All distinct key times on a clip, for drawing markers
+export const getKeyframeTimes = (clip: TimelineClip): number[] => {
+  const times = Object.values(clip.keyframes ?? {}).flatMap(keys => keys.map(k => k.time));
+  return [...new Set(times)].sort((a, b) => a - b);
+};
+
+const withKeys = (clip: TimelineClip, property: AnimatableProperty, keys: Keyframe[]): TimelineClip => {
+  const keyframes = { ...clip.keyframes };
+  if (keys.length > 0) keyframes[property] = keys;
+  else delete keyframes[property];
+  return { ...clip, keyframes: Object.keys(keyframes).length > 0 ? keyframes : undefined };
+};
+
+// Adds a key, or changes the value of the one already at that time (keeping its easing)
+export const setKeyframe = (
+  clip: TimelineClip,
+  property: AnimatableProperty,
+  localTime: number,
+  value: number | string
+): TimelineClip => {
+  const keys = clip.keyframes?.[property] ?? [];
+  const existing = getKeyframeAt(clip, property, localTime);
+  const next = existing
+    ? keys.map(k => k === existing ? { ...k, value } : k)
+    : [...keys, { time: localTime, value, easing: EasingType.LINEAR }].sort((a, b) => a.time - b.time);
+  return withKeys(clip, property, next);
+};
+
+export const removeKeyframe = (clip: TimelineClip, property: AnimatableProperty, localTime: number): TimelineClip => {
+  const existing = getKeyframeAt(clip, property, localTime);
+  if (!existing) return clip;
+  return withKeys(clip, property, (clip.keyframes?.[property] ?? []).filter(k => k !== existing));
+};
+
+export const setKeyframeEasing = (
+  clip: TimelineClip,
+  property: AnimatableProperty,
+  localTime: number,
+  easing: EasingType,
+  bezier?: [number, number, number, number]
+): TimelineClip => {
+  const existing = getKeyframeAt(clip, property, localTime);
+  if (!existing) return clip;
+  return withKeys(clip, property, (clip.keyframes?.[property] ?? []).map(k =>
+    k === existing ? { ...k, easing, bezier: easing === EasingType.BEZIER ? bezier ?? k.bezier ?? DEFAULT_BEZIER : undefined } : k
+  ));
+};
+
+// Writes clip-level values at a timeline time: keyed properties get a key there, the rest change their static value
+export const applyValuesAt = (
+  clip: TimelineClip,
+  time: number,
+  values: Partial<Record<NumericProperty, number>> & { crop?: ClipTransform['crop'] }
+): TimelineClip => {
+  const localTime = time - clip.startOffset;
+  let next = clip;
+  const { crop, ...numbers } = values;
+  if (crop) next = { ...next, transform: { ...getClipTransform(next), crop } };
+
+  for (const [property, value] of Object.entries(numbers) as [NumericProperty, number][]) {
+    if (hasKeyframes(next, property)) next = setKeyframe(next, property, localTime, value);
+    else if (property === 'volume') next = { ...next, volume: value };
+    else if (isAdjustment(property)) next = { ...next, adjustments: { ...next.adjustments, [property]: value } };
+    else next = { ...next, transform: { ...getClipTransform(next), [property]: value } };
+  }
+  return next;
+};
+
+// Moves every key by delta seconds, e.g. after a left trim so keys stay on the same media frames
+export const shiftKeyframes = (
+  keyframes: TimelineClip['keyframes'],
+  delta: number
+): TimelineClip['keyframes'] => {
+  if (!keyframes) return keyframes;
+  const shifted: TimelineClip['keyframes'] = {};
+  for (const [property, keys] of Object.entries(keyframes) as [AnimatableProperty, Keyframe[]][]) {
+    shifted[property] = keys.map(k => ({ ...k, time: k.time + delta }));
+  }
+  return shifted;
+};
+
+// Splits a clip's curves at a local time; both halves get a key on the cut so their values match the original there
+export const splitKeyframes = (
+  keyframes: TimelineClip['keyframes'],
+  localTime: number
+): [TimelineClip['keyframes'], TimelineClip['keyframes']] => {
+  if (!keyframes) return [keyframes, keyframes];
+  const left: TimelineClip['keyframes'] = {};
+  const right: TimelineClip['keyframes'] = {};
+
+  for (const [property, keys] of Object.entries(keyframes) as [AnimatableProperty, Keyframe[]][]) {
+    const value = evaluateKeyframes(keys, localTime);
+    if (value === undefined) continue;
+    const segment = [...keys].reverse().find(k => k.time <= localTime) ?? keys[0];
+    const boundary: Keyframe = { ...segment, time: localTime, value };
+
+    left[property] = [...keys.filter(k => k.time < localTime - KEYFRAME_TOLERANCE), { ...boundary }];
+    right[property] = [boundary, ...keys.filter(k => k.time > localTime + KEYFRAME_TOLERANCE)]
+      .map(k => ({ ...k, time: k.time - localTime }));
+  }
+  return [left, right];
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { parseCubeLut } from './lutService';
+
+// Identity table of the given size, red changing fastest
+const identityRows = (size: number): string[] => {
+  const rows: string[] = [];
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) rows.push([r, g, b].map(c => (c / (size - 1)).toFixed(4)).join(' '));
+    }
+  }
+  return rows;
+};
+
+const cube = (...lines: string[]) => lines.join('\n');
+
+describe('parseCubeLut', () => {
+  it('reads the title, size and rows', () => {
+    const lut = parseCubeLut(cube('# comment', 'TITLE "Warm Look"', 'LUT_3D_SIZE 2', '', ...identityRows(2)), 'warm.cube');
+    expect(lut.name).toBe('Warm Look');
+    expect(lut.size).toBe(2);
+    expect(lut.data).toHaveLength(2 ** 3 * 3);
+    expect(lut.data.slice(3, 6)).toEqual([1, 0, 0]);
+    expect(lut.domainMin).toEqual([0, 0, 0]);
+    expect(lut.domainMax).toEqual([1, 1, 1]);
+  });
+
+  it('names the LUT after the file when there is no title', () => {
+    expect(parseCubeLut(cube('LUT_3D_SIZE 2', ...identityRows(2)), 'Film Print.CUBE').name).toBe('Film Print');
+  });
+
+  it('reads DOMAIN_MIN and DOMAIN_MAX', () => {
+    const lut = parseCubeLut(cube('LUT_3D_SIZE 2', 'DOMAIN_MIN -0.1 0 0', 'DOMAIN_MAX 1 2 1.5', ...identityRows(2)), 'a.cube');
+    expect(lut.domainMin).toEqual([-0.1, 0, 0]);
+    expect(lut.domainMax).toEqual([1, 2, 1.5]);
+  });
+
+  it('rejects a domain whose minimum is not below its maximum', () => {
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', 'DOMAIN_MIN 0 1 0', 'DOMAIN_MAX 1 1 1', ...identityRows(2)), 'a.cube'))
+      .toThrow('DOMAIN_MIN must be below DOMAIN_MAX.');
+  });
+
+  it('accepts CRLF line endings and other keywords', () => {
+    const lut = parseCubeLut(['LUT_3D_SIZE 2', 'LUT_3D_INPUT_RANGE 0 1', ...identityRows(2)].join('\r\n'), 'a.cube');
+    expect(lut.data).toHaveLength(24);
+  });
+
+  it('rejects 1D LUTs', () => {
+    expect(() => parseCubeLut(cube('LUT_1D_SIZE 4', '0 0 0', '1 1 1'), 'a.cube')).toThrow(/1D LUTs are not supported/);
+  });
+
+  it('rejects a file without a size', () => {
+    expect(() => parseCubeLut(cube(...identityRows(2)), 'a.cube')).toThrow('The file has no LUT_3D_SIZE line.');
+  });
+
+  it('rejects the wrong number of rows', () => {
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', ...identityRows(2).slice(1)), 'a.cube'))
+      .toThrow('Expected 8 table rows for a size of 2, found 7.');
+  });
+
+  it('rejects bad numbers with the line they are on', () => {
+    const rows = identityRows(2);
+    rows[2] = '0.5 abc 0';
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', ...rows), 'a.cube')).toThrow('Line 4: expected three numbers.');
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', '0 0', ...rows), 'a.cube')).toThrow('Line 2: expected three numbers.');
+  });
+
+  it('caps the table size', () => {
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 65'), 'a.cube')).toThrow('Line 1: the table size must be a whole number from 2 to 33.');
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 1'), 'a.cube')).toThrow(/from 2 to 33/);
+    expect(() => parseCubeLut(cube('LUT_3D_SIZE 2.5'), 'a.cube')).toThrow(/whole number/);
+  });
+
+  it('accepts the largest size', () => {
+    // Too many rows to spread into cube()
+    const content = ['LUT_3D_SIZE 33', ...identityRows(33)].join('\n');
+    expect(parseCubeLut(content, 'a.cube').size).toBe(33);
+  });
+});
@@ -0,0 +1,65 @@
+import { ColorLut } from '../types';
+
+// Adobe/Resolve .cube files: keyword lines, then size^3 "r g b" rows with red changing fastest.
+// Only 3D tables are supported; 1D shaper LUTs are rejected.
+
+const MIN_LUT_SIZE = 2;
+// The usual size grading tools export. Tables live inline in the project JSON that every save writes;
+// a 65-point table is over 800k numbers, so larger ones have to be resampled before import.
+const MAX_LUT_SIZE = 33;
+
+const parseTriple = (fields: string[], line: number): [number, number, number] => {
+  const values = fields.map(Number);
+  if (values.length !== 3 || values.some(v => !Number.isFinite(v))) {
+    throw new Error(`Line ${line}: expected three numbers.`);
+  }
+  return values as [number, number, number];
+};
+
+export const parseCubeLut = (content: string, name: string): ColorLut => {
+  let title: string | undefined;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const data: number[] = [];
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const text = raw.trim();
+    const line = index + 1;
+    if (!text || text.startsWith('#')) return;
+
+    const [keyword, ...fields] = text.split(/\s+/);
+    switch (keyword) {
+      case 'TITLE':
+        title = text.slice(keyword.length).trim().replace(/^"(.*)"$/, '$1');
+        return;
+      case 'LUT_3D_SIZE':
+        size = Number(fields[0]);
+        if (!Number.isInteger(size) || size < MIN_LUT_SIZE || size > MAX_LUT_SIZE) {
+          throw new Error(`Line ${line}: the table size must be a whole number from ${MIN_LUT_SIZE} to ${MAX_LUT_SIZE}.`);
+        }
+        return;
+      case 'LUT_1D_SIZE':
+        throw new Error('1D LUTs are not supported; export a 3D LUT instead.');
+      case 'DOMAIN_MIN':
+        domainMin = parseTriple(fields, line);
+        return;
+      case 'DOMAIN_MAX':
+        domainMax = parseTriple(fields, line);
+        return;
+    }
+    // Other keywords (e.g. LUT_3D_INPUT_RANGE from some tools) don't change how the table is read
+    if (/^[A-Z][A-Z0-9_]*$/.test(keyword)) return;
+    data.push(...parseTriple([keyword, ...fields], line));
+  });
+
+  if (size === 0) throw new Error('The file has no LUT_3D_SIZE line.');
+  if (data.length !== size ** 3 * 3) {
+    throw new Error(`Expected ${size ** 3} table rows for a size of ${size}, found ${data.length / 3}.`);
+  }
+  if (domainMin.some((min, i) => min >= domainMax[i])) {
+    throw new Error('DOMAIN_MIN must be below DOMAIN_MAX.');
+  }
+
+  return { id: crypto.randomUUID(), name: title || name.replace(/\.cube$/i, ''), size, domainMin, domainMax, data };
+};
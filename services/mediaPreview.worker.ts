@@ -0,0 +1,61 @@
+// Heavy lifting for timeline previews, kept off the main thread: reducing decoded audio to peaks
+// and packing captured video frames into a single JPEG strip.
+
+export type MediaPreviewJob =
+  | { kind: 'waveform'; channels: Float32Array[]; sampleRate: number; peaksPerSecond: number }
+  | { kind: 'filmstrip'; frames: ImageBitmap[]; frameWidth: number; frameHeight: number };
+
+export type MediaPreviewRequest = MediaPreviewJob & { id: number };
+
+export type MediaPreviewResponse =
+  | { id: number; kind: 'waveform'; peaks: Float32Array }
+  | { id: number; kind: 'filmstrip'; image: Blob }
+  | { id: number; kind: 'error'; message: string };
+
+// Loudest absolute sample across all channels for each bucket
+const computePeaks = (channels: Float32Array[], sampleRate: number, peaksPerSecond: number): Float32Array => {
+  const length = channels[0]?.length ?? 0;
+  const bucketSize = Math.max(1, Math.floor(sampleRate / peaksPerSecond));
+  const peaks = new Float32Array(Math.ceil(length / bucketSize));
+  for (let bucket = 0; bucket < peaks.length; bucket++) {
+    const end = Math.min(length, (bucket + 1) * bucketSize);
+    let peak = 0;
+    for (const channel of channels) {
+      for (let i = bucket * bucketSize; i < end; i++) {
+        const value = Math.abs(channel[i]);
+        if (value > peak) peak = value;
+      }
+    }
+    peaks[bucket] = Math.min(peak, 1);
+  }
+  return peaks;
+};
+
+const packFrames = async (frames: ImageBitmap[], frameWidth: number, frameHeight: number): Promise<Blob> => {
+  const canvas = new OffscreenCanvas(frameWidth * frames.length, frameHeight);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create a canvas for the filmstrip.");
+  frames.forEach((frame, i) => {
+    ctx.drawImage(frame, i * frameWidth, 0, frameWidth, frameHeight);
+    frame.close();
+  });
+  return canvas.convertToBlob({ type: 'image/jpeg', quality: 0.7 });
+};
+
+self.onmessage = async (event: MessageEvent<MediaPreviewRequest>) => {
+  const request = event.data;
+  try {
+    if (request.kind === 'waveform') {
+      const peaks = computePeaks(request.channels, request.sampleRate, request.peaksPerSecond);
+      const response: MediaPreviewResponse = { id: request.id, kind: 'waveform', peaks };
+      self.postMessage(response, { transfer: [peaks.buffer] });
+    } else {
+      const image = await packFrames(request.frames, request.frameWidth, request.frameHeight);
+      const response: MediaPreviewResponse = { id: request.id, kind: 'filmstrip', image };
+      self.postMessage(response);
+    }
+  } catch (e) {
+    const response: MediaPreviewResponse = { id: request.id, kind: 'error', message: e instanceof Error ? e.message : String(e) };
+    self.postMessage(response);
+  }
+};
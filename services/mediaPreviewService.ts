@@ -0,0 +1,141 @@
+import { MediaAsset } from '../types';
+import type { MediaPreviewJob, MediaPreviewResponse } from './mediaPreview.worker';
+
+// Waveforms and filmstrips for timeline clips. Each is generated once per asset and cached for the session;
+// decoding and frame capture use the browser's own async pipelines, the number crunching runs in a worker.
+
+export interface Waveform {
+  peaksPerSecond: number;
+  peaks: Float32Array; // 0..1
+}
+
+export interface Filmstrip {
+  url: string; // Object URL of all frames side by side
+  frameWidth: number;
+  frameHeight: number;
+  interval: number; // Seconds of media between frames
+  count: number;
+}
+
+const PEAKS_PER_SECOND = 100;
+// Audio is decoded at a low rate; peaks don't need the full bandwidth
+const WAVEFORM_SAMPLE_RATE = 8000;
+export const FILMSTRIP_FRAME_HEIGHT = 48;
+const MAX_FILMSTRIP_FRAMES = 120;
+const MIN_FILMSTRIP_INTERVAL = 1;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (response: MediaPreviewResponse) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./mediaPreview.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<MediaPreviewResponse>) => {
+      const request = pending.get(event.data.id);
+      if (!request) return;
+      pending.delete(event.data.id);
+      if (event.data.kind === 'error') request.reject(new Error(event.data.message));
+      else request.resolve(event.data);
+    };
+    // A worker that fails to load would otherwise leave every request hanging
+    worker.onerror = () => {
+      pending.forEach(request => request.reject(new Error("The preview worker failed.")));
+      pending.clear();
+    };
+  }
+  return worker;
+};
+
+const runInWorker = (job: MediaPreviewJob, transfer: Transferable[]): Promise<MediaPreviewResponse> =>
+  new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ ...job, id }, transfer);
+  });
+
+// --- Waveforms ---
+
+const generateWaveform = async (asset: MediaAsset): Promise<Waveform> => {
+  const data = await (await fetch(asset.src)).arrayBuffer();
+  const ctx = new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE);
+  const buffer = await ctx.decodeAudioData(data);
+  // Copies, since the buffer's own channel data can't be transferred
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i).slice());
+  const response = await runInWorker(
+    { kind: 'waveform', channels, sampleRate: buffer.sampleRate, peaksPerSecond: PEAKS_PER_SECOND },
+    channels.map(c => c.buffer)
+  );
+  if (response.kind !== 'waveform') throw new Error("Unexpected waveform response.");
+  return { peaksPerSecond: PEAKS_PER_SECOND, peaks: response.peaks };
+};
+
+// --- Filmstrips ---
+
+const waitFor = (target: HTMLMediaElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onError = () => reject(new Error("Could not read the video."));
+    target.addEventListener(event, () => {
+      target.removeEventListener('error', onError);
+      resolve();
+    }, { once: true });
+    target.addEventListener('error', onError, { once: true });
+  });
+
+const generateFilmstrip = async (asset: MediaAsset): Promise<Filmstrip> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = asset.src;
+  try {
+    await waitFor(video, 'loadeddata');
+    const duration = video.duration || asset.duration;
+    const interval = Math.max(MIN_FILMSTRIP_INTERVAL, duration / MAX_FILMSTRIP_FRAMES);
+    const count = Math.max(1, Math.ceil(duration / interval));
+    const frameHeight = FILMSTRIP_FRAME_HEIGHT;
+    const frameWidth = Math.max(1, Math.round(frameHeight * (video.videoWidth / video.videoHeight || 16 / 9)));
+
+    // Each frame is taken from the middle of the span it stands for
+    const frames: ImageBitmap[] = [];
+    for (let i = 0; i < count; i++) {
+      video.currentTime = Math.min((i + 0.5) * interval, duration - 0.001);
+      await waitFor(video, 'seeked');
+      frames.push(await createImageBitmap(video, { resizeWidth: frameWidth, resizeHeight: frameHeight, resizeQuality: 'low' }));
+    }
+
+    const response = await runInWorker({ kind: 'filmstrip', frames, frameWidth, frameHeight }, frames);
+    if (response.kind !== 'filmstrip') throw new Error("Unexpected filmstrip response.");
+    return { url: URL.createObjectURL(response.image), frameWidth, frameHeight, interval, count };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+};
+
+// --- Cache ---
+
+const waveforms = new Map<string, Promise<Waveform>>();
+const filmstrips = new Map<string, Promise<Filmstrip>>();
+// Filmstrips each need a video decoder, so they are captured one at a time
+let filmstripQueue: Promise<unknown> = Promise.resolve();
+
+// Failed generations are forgotten so a later request can retry
+const cached = <T>(cache: Map<string, Promise<T>>, key: string, generate: () => Promise<T>): Promise<T> => {
+  let result = cache.get(key);
+  if (!result) {
+    result = generate();
+    cache.set(key, result);
+    result.catch(() => cache.delete(key));
+  }
+  return result;
+};
+
+export const getWaveform = (asset: MediaAsset): Promise<Waveform> =>
+  cached(waveforms, asset.id, () => generateWaveform(asset));
+
+export const getFilmstrip = (asset: MediaAsset): Promise<Filmstrip> =>
+  cached(filmstrips, asset.id, () => {
+    const result = filmstripQueue.then(() => generateFilmstrip(asset));
+    filmstripQueue = result.catch(() => {});
+    return result;
+  });
@@ -0,0 +1,64 @@
+import { MediaType } from '../types';
+
+const THUMBNAIL_WIDTH = 160;
+
+const drawThumbnail = (source: CanvasImageSource, width: number, height: number): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = Math.max(1, Math.round(THUMBNAIL_WIDTH * (height / width)));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+// Small poster image for the library and project browser. Audio and text have none.
+export const createThumbnail = (src: string, type: MediaType): Promise<string | undefined> => {
+  if (type === MediaType.IMAGE) {
+    return new Promise((resolve) => {
+      const img = new Image();
+      img.onload = () => resolve(drawThumbnail(img, img.naturalWidth, img.naturalHeight) || undefined);
+      img.onerror = () => resolve(undefined);
+      img.src = src;
+    });
+  }
+
+  if (type === MediaType.VIDEO) {
+    return new Promise((resolve) => {
+      const video = document.createElement('video');
+      video.muted = true;
+      video.preload = 'auto';
+      video.onloadedmetadata = () => {
+        // Skip the very first frame, which is often black
+        video.currentTime = Math.min(0.5, video.duration / 2 || 0);
+      };
+      video.onseeked = () => resolve(drawThumbnail(video, video.videoWidth, video.videoHeight) || undefined);
+      video.onerror = () => resolve(undefined);
+      video.src = src;
+    });
+  }
+
+  return Promise.resolve(undefined);
+};
+
+// Full-size still of a video at `time`, for freeze frames
+export const captureVideoFrame = (src: string, time: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.max(0, Math.min(time, video.duration - 0.001));
+    };
+    video.onseeked = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      canvas.getContext('2d')?.drawImage(video, 0, 0);
+      video.removeAttribute('src');
+      video.load();
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not capture the frame.')), 'image/png');
+    };
+    video.onerror = () => reject(new Error('Could not load the video to capture a frame.'));
+    video.src = src;
+  });
@@ -0,0 +1,147 @@
+import { Project } from '../types';
+import { createZip, readZip, ZipEntry } from './zipArchive';
+import { PROJECT_SCHEMA_VERSION } from './projectService';
+import { readProject } from './projectSchema';
+import { getStoredIds, saveProject } from './storageService';
+
+// A portable project: a ZIP holding project.json plus every media file and thumbnail the project
+// references. Asset sources in the JSON are paths inside the archive.
+
+export const PROJECT_BUNDLE_EXTENSION = '.vnproj';
+
+const BUNDLE_FORMAT = 'vn-editor-project';
+const MANIFEST_NAME = 'project.json';
+
+interface BundleManifest {
+  format: string;
+  schemaVersion: number;
+  exportedAt: number;
+  project: Project;
+  types: Record<string, string>; // MIME type of each media entry, which ZIP does not record
+}
+
+const isEmbeddable = (src: string) => src.startsWith('blob:') || src.startsWith('data:');
+
+// Where embedded files go inside the archive
+const MEDIA_FOLDER = 'media/';
+const THUMBNAIL_FOLDER = 'thumbnails/';
+
+const isArchivePath = (src: string) => src.startsWith(MEDIA_FOLDER) || src.startsWith(THUMBNAIL_FOLDER);
+
+export const createProjectBundle = async (project: Project): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const types: Record<string, string> = {};
+
+  // Blob and Data URLs both resolve through fetch; anything else (e.g. empty text sources) stays as it is
+  const embed = async (src: string, path: string, assetName: string): Promise<string> => {
+    if (!isEmbeddable(src)) return src;
+    let blob: Blob;
+    try {
+        blob = await (await fetch(src)).blob();
+    } catch {
+        throw new Error(`The media for "${assetName}" could not be read, so the project cannot be exported.`);
+    }
+    entries.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+    types[path] = blob.type;
+    return path;
+  };
+
+  const assets = [];
+  for (const asset of project.assets) {
+    assets.push({
+      ...asset,
+      src: await embed(asset.src, `${MEDIA_FOLDER}${asset.id}`, asset.name),
+      thumbnail: asset.thumbnail && await embed(asset.thumbnail, `${THUMBNAIL_FOLDER}${asset.id}`, asset.name),
+    });
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    project: { ...project, assets },
+    types,
+  };
+  entries.unshift({ name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+export const downloadProjectBundle = async (project: Project): Promise<void> => {
+  const url = URL.createObjectURL(await createProjectBundle(project));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${project.name || 'project'}${PROJECT_BUNDLE_EXTENSION}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const readManifest = (entries: Map<string, Uint8Array>): BundleManifest => {
+  const data = entries.get(MANIFEST_NAME);
+  if (!data) throw new Error(`The bundle has no ${MANIFEST_NAME}.`);
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new Error(`The bundle's ${MANIFEST_NAME} is not valid JSON.`);
+  }
+  if (manifest?.format !== BUNDLE_FORMAT || !manifest.project) {
+    throw new Error("The file is not a VN Clone project bundle.");
+  }
+  if (!Number.isInteger(manifest.schemaVersion) || manifest.schemaVersion < 1) {
+    throw new Error("The bundle has no valid schema version.");
+  }
+  if (manifest.schemaVersion > PROJECT_SCHEMA_VERSION) {
+    throw new Error("The project was exported by a newer version of the editor. Update the editor to import it.");
+  }
+  // Migrations start from the project's own version, so the two have to agree for the check above to mean anything
+  if (manifest.project.schemaVersion !== manifest.schemaVersion) {
+    throw new Error("The bundle's schema version does not match its project's, so the bundle may have been edited or damaged.");
+  }
+  return manifest;
+};
+
+// Saves the bundled project to browser storage. Project and asset ids that are already taken
+// (e.g. importing a project back into the browser it came from) are replaced with new ones.
+export const importProjectBundle = async (file: File): Promise<Project> => {
+  let entries: Map<string, Uint8Array>;
+  try {
+    entries = readZip(await file.arrayBuffer());
+  } catch (e) {
+    throw new Error(`"${file.name}" could not be read: ${e instanceof Error ? e.message : e}`);
+  }
+  const manifest = readManifest(entries);
+  const bundled = readProject(manifest.project);
+  const taken = await getStoredIds();
+
+  const assetIds = new Map(bundled.assets.map(a => [a.id, taken.assets.has(a.id) ? crypto.randomUUID() : a.id]));
+  const urls: string[] = [];
+  // Sources that were never embedded (e.g. empty text sources) stay as they are
+  const unpack = (src: string, assetName: string): string => {
+    const data = entries.get(src);
+    if (!data) {
+      if (isArchivePath(src)) throw new Error(`The bundle is missing ${src}, the media for "${assetName}".`);
+      return src;
+    }
+    const url = URL.createObjectURL(new Blob([data], { type: manifest.types?.[src] ?? '' }));
+    urls.push(url);
+    return url;
+  };
+
+  // saveProject copies the blobs into storage, so the URLs are only needed until it returns
+  try {
+    const project: Project = {
+      ...bundled,
+      id: taken.projects.has(bundled.id) ? crypto.randomUUID() : bundled.id,
+      assets: bundled.assets.map(asset => ({
+        ...asset,
+        id: assetIds.get(asset.id)!,
+        src: unpack(asset.src, asset.name),
+        thumbnail: asset.thumbnail && unpack(asset.thumbnail, asset.name),
+      })),
+      timeline: bundled.timeline.map(clip => ({ ...clip, assetId: assetIds.get(clip.assetId) ?? clip.assetId })),
+    };
+    return await saveProject(project);
+  } finally {
+    urls.forEach(url => URL.revokeObjectURL(url));
+  }
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { MediaType, Project, TimelineClip } from '../types';
+import { createProject, PROJECT_SCHEMA_VERSION } from './projectService';
+import { isFromNewerVersion, readProject, validateProject } from './projectSchema';
+import { getRangeMediaStart, getTrimHeadroom } from './clipSpeed';
+import { floorToFrame } from './timecode';
+import { splitClipAt } from './timelineOps';
+
+// One image clip on the main track, graded with the project's only LUT
+const createTestProject = (): Project => {
+  const project = createProject('Schema Test');
+  const main = project.tracks.find(t => t.name === 'Main')!;
+  return {
+    ...project,
+    assets: [{ id: 'still', type: MediaType.IMAGE, src: 'blob:still', name: 'Still', duration: 5 }],
+    luts: [{ id: 'warm', name: 'Warm', size: 2, data: new Array(24).fill(0), domainMin: [0, 0, 0], domainMax: [1, 1, 1] }],
+    timeline: [{ id: 'clip', assetId: 'still', trackId: main.id, startOffset: 0, mediaStart: 0, duration: 5, lutId: 'warm' }],
+  };
+};
+
+describe('validateProject', () => {
+  it('accepts a project whose clips point at existing items', () => {
+    const project = createTestProject();
+    expect(validateProject(project)).toBe(project);
+  });
+
+  it('rejects clips that point at a missing track, asset or LUT', () => {
+    const project = createTestProject();
+    project.timeline = [{ ...project.timeline[0], trackId: 'gone', assetId: 'lost', lutId: 'deleted' }];
+    expect(() => validateProject(project)).toThrow(
+      'The project "Schema Test" is not valid:\n' +
+      '- timeline[0].trackId names a track that does not exist (gone)\n' +
+      '- timeline[0].assetId names a media asset that does not exist (lost)\n' +
+      '- timeline[0].lutId names a LUT that does not exist (deleted)'
+    );
+  });
+});
+
+describe('readProject', () => {
+  it('reports a project from a newer editor as such', () => {
+    const project = { ...createTestProject(), schemaVersion: PROJECT_SCHEMA_VERSION + 1 };
+    expect(isFromNewerVersion(project)).toBe(true);
+    expect(() => readProject(project)).toThrow('"Schema Test" was saved by a newer version of the editor');
+  });
+
+  it('does not treat broken or current data as newer', () => {
+    expect(isFromNewerVersion(createTestProject())).toBe(false);
+    expect(isFromNewerVersion({ schemaVersion: 'later' })).toBe(false);
+    expect(isFromNewerVersion(null)).toBe(false);
+  });
+});
+
+describe('clip times', () => {
+  // What the timeline does when a clip's left edge is dragged as far as its media allows
+  const trimStartFully = (clip: TimelineClip, sourceDuration: number, frameRate: number): TimelineClip => {
+    const delta = -floorToFrame(getTrimHeadroom(clip, sourceDuration).start, frameRate);
+    const duration = clip.duration - delta;
+    return { ...clip, startOffset: clip.startOffset + delta, mediaStart: getRangeMediaStart(clip, delta, duration), duration };
+  };
+
+  it('survives a reload after a split and a full left trim', () => {
+    const project = createTestProject();
+    const [left, right] = splitClipAt({ ...project.timeline[0], startOffset: 0.4, duration: 2 }, 0.7, 'right')!;
+    const trimmed = trimStartFully(right, 5, project.settings.frameRate);
+    expect(trimmed.mediaStart).toBeGreaterThanOrEqual(0);
+
+    project.timeline = [left, trimmed];
+    const reloaded = readProject(JSON.parse(JSON.stringify(project)));
+    expect(reloaded.timeline.map(c => c.id)).toEqual(['clip', 'right']);
+  });
+
+  it('allows float noise below zero in stored times', () => {
+    const project = createTestProject();
+    project.timeline = [{ ...project.timeline[0], startOffset: -5.551115123125783e-17, mediaStart: -5.551115123125783e-17 }];
+    expect(() => validateProject(project)).not.toThrow();
+    project.timeline = [{ ...project.timeline[0], mediaStart: -0.01 }];
+    expect(() => validateProject(project)).toThrow('timeline[0].mediaStart must be a number of at least 0');
+  });
+});
@@ -0,0 +1,244 @@
+import { Project, MediaAsset, TimelineClip, MediaType, TrackKind, TransitionType, FilterPreset, SubtitleFormat } from '../types';
+import { migrateProject, PROJECT_SCHEMA_VERSION } from './projectService';
+
+// Runtime checks for project data from outside the running editor (browser storage, imported bundles).
+// Each check appends readable problems such as `timeline[3].duration must be a positive number`.
+
+// Errors list this many problems; the rest are counted
+const MAX_REPORTED_PROBLEMS = 5;
+
+// Slack for times the editor computed itself, which can sit a float-noise step below their limit
+const TIME_TOLERANCE = 1e-6;
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isOneOf = (values: object, value: unknown) => (Object.values(values) as unknown[]).includes(value);
+
+interface NumberRule {
+  min?: number;
+  tolerance?: number; // How far below `min` still passes
+  positive?: boolean;
+  optional?: boolean;
+}
+
+// Field checks that report into a shared problem list, prefixed with where the value sits
+interface Checker {
+  path: string;
+  problems: string[];
+  child: (segment: string) => Checker;
+  check: (ok: boolean, field: string, message: string) => boolean;
+  string: (fields: Fields, field: string, optional?: boolean) => boolean;
+  id: (fields: Fields, field: string) => boolean;
+  number: (fields: Fields, field: string, rule?: NumberRule) => boolean;
+  boolean: (fields: Fields, field: string, optional?: boolean) => boolean;
+  oneOf: (fields: Fields, field: string, values: object, optional?: boolean) => boolean;
+  object: (fields: Fields, field: string, optional?: boolean) => boolean;
+  array: (fields: Fields, field: string, optional?: boolean) => boolean;
+}
+
+const createChecker = (path: string, problems: string[] = []): Checker => {
+  const check = (ok: boolean, field: string, message: string) => {
+    if (!ok) problems.push(`${[path, field].filter(Boolean).join('.') || 'The data'} ${message}`);
+    return ok;
+  };
+  // Optional fields pass when absent
+  const field = (test: (value: unknown) => boolean, message: string) =>
+    (fields: Fields, name: string, optional = false) =>
+      check((optional && fields[name] === undefined) || test(fields[name]), name, message);
+
+  return {
+    path,
+    problems,
+    child: (segment) => createChecker(path ? `${path}.${segment}` : segment, problems),
+    check,
+    string: field(value => typeof value === 'string', 'must be text'),
+    id: (fields, name) => check(typeof fields[name] === 'string' && (fields[name] as string).length > 0, name, 'must be a non-empty id'),
+    number: (fields, name, { min = -Infinity, tolerance = 0, positive = false, optional = false } = {}) => {
+      const value = fields[name];
+      if (optional && value === undefined) return true;
+      if (positive) return check(isNumber(value) && value > 0, name, 'must be a positive number');
+      return check(isNumber(value) && value >= min - tolerance, name, min === -Infinity ? 'must be a number' : `must be a number of at least ${min}`);
+    },
+    boolean: field(value => typeof value === 'boolean', 'must be true or false'),
+    oneOf: (fields, name, values, optional = false) =>
+      field(value => isOneOf(values, value), `must be one of ${Object.values(values).join(', ')}`)(fields, name, optional),
+    object: field(isObject, 'must be an object'),
+    array: field(Array.isArray, 'must be a list'),
+  };
+};
+
+const checkMediaAsset = (value: unknown, at: Checker) => {
+  if (!at.check(isObject(value), '', 'must be an object')) return;
+  const asset = value as Fields;
+  at.id(asset, 'id');
+  at.oneOf(asset, 'type', MediaType);
+  at.string(asset, 'src');
+  at.string(asset, 'name');
+  at.number(asset, 'duration', { min: 0 });
+  at.string(asset, 'thumbnail', true);
+  at.string(asset, 'textContent', true);
+  at.object(asset, 'textStyle', true);
+  if (at.object(asset, 'subtitle', true) && asset.subtitle) {
+    at.child('subtitle').oneOf(asset.subtitle as Fields, 'format', SubtitleFormat);
+  }
+};
+
+const checkTimelineClip = (value: unknown, at: Checker) => {
+  if (!at.check(isObject(value), '', 'must be an object')) return;
+  const clip = value as Fields;
+  at.id(clip, 'id');
+  at.id(clip, 'assetId');
+  at.id(clip, 'trackId');
+  at.number(clip, 'startOffset', { min: 0, tolerance: TIME_TOLERANCE });
+  at.number(clip, 'mediaStart', { min: 0, tolerance: TIME_TOLERANCE });
+  at.number(clip, 'duration', { positive: true });
+  at.number(clip, 'speed', { positive: true, optional: true });
+  at.boolean(clip, 'reversed', true);
+  at.number(clip, 'volume', { min: 0, optional: true });
+  at.number(clip, 'fadeIn', { min: 0, optional: true });
+  at.number(clip, 'fadeOut', { min: 0, optional: true });
+  at.object(clip, 'transform', true);
+  at.object(clip, 'adjustments', true);
+  at.oneOf(clip, 'filter', FilterPreset, true);
+  at.string(clip, 'lutId', true);
+  at.object(clip, 'chromaKey', true);
+  at.object(clip, 'textIn', true);
+  at.object(clip, 'textOut', true);
+  at.object(clip, 'cue', true);
+
+  if (at.object(clip, 'transitionIn', true) && clip.transitionIn) {
+    const transition = at.child('transitionIn');
+    transition.oneOf(clip.transitionIn as Fields, 'type', TransitionType);
+    transition.number(clip.transitionIn as Fields, 'duration', { positive: true });
+  }
+
+  if (at.object(clip, 'keyframes', true) && clip.keyframes) {
+    for (const [property, keys] of Object.entries(clip.keyframes as Fields)) {
+      const curve = at.child(`keyframes.${property}`);
+      if (!curve.check(Array.isArray(keys), '', 'must be a list')) continue;
+      (keys as unknown[]).forEach((key, i) => {
+        const keyAt = createChecker(`${curve.path}[${i}]`, curve.problems);
+        if (!keyAt.check(isObject(key), '', 'must be an object')) return;
+        keyAt.number(key as Fields, 'time');
+        const keyValue = (key as Fields).value;
+        keyAt.check(isNumber(keyValue) || typeof keyValue === 'string', 'value', 'must be a number or a color');
+      });
+    }
+  }
+};
+
+// Ids declared by a list of objects; entries that are not objects are reported on their own
+const getIds = (value: unknown): Set<unknown> =>
+  new Set(Array.isArray(value) ? value.filter(isObject).map(item => item.id) : []);
+
+// Every clip has to point at a track, asset and LUT that exist, or it can't be drawn or edited
+const checkReferences = (project: Fields, at: Checker) => {
+  if (!Array.isArray(project.timeline)) return;
+  const trackIds = getIds(project.tracks);
+  const assetIds = getIds(project.assets);
+  const lutIds = getIds(project.luts);
+  project.timeline.forEach((clip, i) => {
+    if (!isObject(clip)) return;
+    const clipAt = at.child(`timeline[${i}]`);
+    if (typeof clip.trackId === 'string' && clip.trackId) clipAt.check(trackIds.has(clip.trackId), 'trackId', `names a track that does not exist (${clip.trackId})`);
+    if (typeof clip.assetId === 'string' && clip.assetId) clipAt.check(assetIds.has(clip.assetId), 'assetId', `names a media asset that does not exist (${clip.assetId})`);
+    if (typeof clip.lutId === 'string' && clip.lutId) clipAt.check(lutIds.has(clip.lutId), 'lutId', `names a LUT that does not exist (${clip.lutId})`);
+  });
+};
+
+const checkProject = (value: unknown, at: Checker) => {
+  if (!at.check(isObject(value), '', 'must be an object')) return;
+  const project = value as Fields;
+  at.id(project, 'id');
+  at.string(project, 'name');
+  at.number(project, 'lastModified');
+  at.check(Number.isInteger(project.schemaVersion), 'schemaVersion', 'must be a whole number');
+
+  if (at.object(project, 'settings')) {
+    const settings = at.child('settings');
+    settings.number(project.settings as Fields, 'frameRate', { positive: true });
+    settings.number(project.settings as Fields, 'width', { positive: true });
+    settings.number(project.settings as Fields, 'height', { positive: true });
+  }
+
+  if (at.array(project, 'assets')) {
+    (project.assets as unknown[]).forEach((asset, i) => {
+      // Named in messages when possible, since that's what people recognize
+      const name = isObject(asset) && typeof asset.name === 'string' ? ` ("${asset.name}")` : '';
+      checkMediaAsset(asset, at.child(`assets[${i}]${name}`));
+    });
+  }
+
+  if (at.array(project, 'tracks')) {
+    (project.tracks as unknown[]).forEach((track, i) => {
+      const trackAt = at.child(`tracks[${i}]`);
+      if (!trackAt.check(isObject(track), '', 'must be an object')) return;
+      trackAt.id(track as Fields, 'id');
+      trackAt.oneOf(track as Fields, 'kind', TrackKind);
+      trackAt.string(track as Fields, 'name');
+      trackAt.number(track as Fields, 'order');
+    });
+  }
+
+  if (at.array(project, 'timeline')) {
+    (project.timeline as unknown[]).forEach((clip, i) => checkTimelineClip(clip, at.child(`timeline[${i}]`)));
+  }
+
+  if (at.array(project, 'luts', true) && project.luts) {
+    (project.luts as unknown[]).forEach((lut, i) => {
+      const lutAt = at.child(`luts[${i}]`);
+      if (!lutAt.check(isObject(lut), '', 'must be an object')) return;
+      const fields = lut as Fields;
+      lutAt.id(fields, 'id');
+      if (lutAt.check(Number.isInteger(fields.size) && (fields.size as number) >= 2, 'size', 'must be a whole number of at least 2')) {
+        lutAt.check(Array.isArray(fields.data) && fields.data.length === (fields.size as number) ** 3 * 3, 'data', 'must hold size³ RGB rows');
+      }
+    });
+  }
+
+  checkReferences(project, at);
+};
+
+const toError = (subject: string, problems: string[]): Error => {
+  const listed = problems.slice(0, MAX_REPORTED_PROBLEMS).map(p => `- ${p}`);
+  const more = problems.length - listed.length;
+  if (more > 0) listed.push(`- and ${more} more`);
+  return new Error(`${subject} is not valid:\n${listed.join('\n')}`);
+};
+
+const validate = <T>(value: unknown, subject: string, check: (value: unknown, at: Checker) => void): T => {
+  const checker = createChecker('');
+  check(value, checker);
+  if (checker.problems.length > 0) throw toError(subject, checker.problems);
+  return value as T;
+};
+
+export const validateMediaAsset = (value: unknown): MediaAsset =>
+  validate(value, 'The media asset', checkMediaAsset);
+
+export const validateTimelineClip = (value: unknown): TimelineClip =>
+  validate(value, 'The clip', checkTimelineClip);
+
+export const validateProject = (value: unknown): Project => {
+  const name = isObject(value) && typeof value.name === 'string' ? `The project "${value.name}"` : 'The project';
+  return validate(value, name, checkProject);
+};
+
+// Data written by a newer editor. It isn't broken, so it should be kept as it is rather than
+// set aside; this editor just can't read it.
+export const isFromNewerVersion = (value: unknown): boolean =>
+  isObject(value) && isNumber(value.schemaVersion) && value.schemaVersion > PROJECT_SCHEMA_VERSION;
+
+// Brings stored or imported data up to the current schema, then checks it.
+// Data too broken for the migrations to read is reported as it is.
+export const readProject = (value: unknown): Project => {
+  if (!isObject(value) || !Array.isArray(value.timeline) || !value.timeline.every(isObject)) {
+    return validateProject(value);
+  }
+  return validateProject(migrateProject(value as unknown as Project));
+};
@@ -0,0 +1,149 @@
+import { Project, ProjectSettings, Track, TrackKind, TimelineClip, MediaType, TransitionType } from '../types';
+import { snapClipToFrames } from './timecode';
+
+const TRACK_KIND_LABELS: Record<TrackKind, string> = {
+  [TrackKind.VIDEO]: 'Video',
+  [TrackKind.TEXT]: 'Text',
+  [TrackKind.AUDIO]: 'Audio',
+  [TrackKind.SUBTITLE]: 'Subtitles',
+};
+
+export const TRANSITION_LABELS: Record<TransitionType, string> = {
+  [TransitionType.CROSSFADE]: 'Crossfade',
+  [TransitionType.DIP_TO_BLACK]: 'Dip to Black',
+  [TransitionType.WIPE]: 'Wipe',
+  [TransitionType.SLIDE]: 'Slide',
+};
+
+export const DEFAULT_TRANSITION_DURATION = 1;
+
+// Drag-and-drop payload type for transitions dragged from the library onto a cut
+export const TRANSITION_DRAG_TYPE = 'application/x-vn-transition';
+
+export const PROJECT_FRAME_RATES = [24, 25, 30, 50, 60];
+
+export const PROJECT_RESOLUTIONS = [
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: '4K', width: 3840, height: 2160 },
+  { label: 'Vertical 1080p', width: 1080, height: 1920 },
+  { label: 'Square', width: 1080, height: 1080 },
+];
+
+// What projects were always edited at before they had settings
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = { frameRate: 30, width: 1280, height: 720 };
+
+// Moves every clip onto the frame grid, e.g. after the frame rate changes
+export const snapTimelineToFrames = (timeline: TimelineClip[], frameRate: number): TimelineClip[] =>
+  timeline.map(clip => snapClipToFrames(clip, frameRate));
+
+export const createTrack = (kind: TrackKind, name: string, order: number): Track => ({
+  id: crypto.randomUUID(),
+  kind,
+  name,
+  order,
+  muted: false,
+  solo: false,
+  locked: false,
+  hidden: false,
+});
+
+// Same layout the editor always had: Text over PIP over Main, with Audio at the bottom
+export const createDefaultTracks = (): Track[] => [
+  createTrack(TrackKind.TEXT, 'Text', 0),
+  createTrack(TrackKind.VIDEO, 'PIP', 1),
+  createTrack(TrackKind.VIDEO, 'Main', 2),
+  createTrack(TrackKind.AUDIO, 'Audio', 3),
+];
+
+export const createProject = (name: string): Project => ({
+  id: crypto.randomUUID(),
+  name,
+  schemaVersion: PROJECT_SCHEMA_VERSION,
+  lastModified: Date.now(),
+  settings: { ...DEFAULT_PROJECT_SETTINGS },
+  assets: [],
+  tracks: createDefaultTracks(),
+  timeline: [],
+});
+
+export const getOrderedTracks = (project: Project): Track[] =>
+  [...project.tracks].sort((a, b) => a.order - b.order);
+
+// Renumber after inserts, deletes and moves so order stays 0..n-1
+export const normalizeTrackOrder = (tracks: Track[]): Track[] =>
+  [...tracks].sort((a, b) => a.order - b.order).map((track, order) => ({ ...track, order }));
+
+export const getNextTrackName = (project: Project, kind: TrackKind): string => {
+  const count = project.tracks.filter(t => t.kind === kind).length;
+  return `${TRACK_KIND_LABELS[kind]} ${count + 1}`;
+};
+
+export const getTrackKindForMedia = (type: MediaType): TrackKind => {
+  switch (type) {
+    case MediaType.TEXT: return TrackKind.TEXT;
+    case MediaType.AUDIO: return TrackKind.AUDIO;
+    case MediaType.SUBTITLE: return TrackKind.SUBTITLE;
+    default: return TrackKind.VIDEO;
+  }
+};
+
+export const isTrackCompatible = (track: Track, type: MediaType): boolean =>
+  track.kind === getTrackKindForMedia(type);
+
+// The bottom-most video track is the full-frame base layer; video tracks above it are overlays.
+export const getBaseVideoTrack = (project: Project): Track | undefined =>
+  getOrderedTracks(project).filter(t => t.kind === TrackKind.VIDEO).pop();
+
+// Solo on any track silences every track that is not soloed
+export const isTrackAudible = (project: Project, track: Track): boolean => {
+  if (track.muted) return false;
+  const anySolo = project.tracks.some(t => t.solo);
+  return !anySolo || track.solo;
+};
+
+// --- Migration ---
+
+// Projects saved before tracks existed addressed them by a fixed index
+const LEGACY_TRACK_INDEX_ORDER = [2, 1, 0, 3]; // Text, PIP, Main, Audio from top to bottom
+
+type LegacyClip = TimelineClip & { trackIndex?: number };
+
+const migrateTracks = (project: Project): Project => {
+  if (Array.isArray(project.tracks) && project.tracks.length > 0) return project;
+
+  const tracks = createDefaultTracks();
+  const trackIdByIndex = new Map(LEGACY_TRACK_INDEX_ORDER.map((index, order) => [index, tracks[order].id]));
+
+  const timeline = (project.timeline as LegacyClip[]).map(({ trackIndex, ...clip }) => ({
+    ...clip,
+    trackId: trackIdByIndex.get(trackIndex ?? 0) ?? trackIdByIndex.get(0)!,
+  }));
+
+  return { ...project, tracks, timeline };
+};
+
+// Projects saved before frame-accurate editing get the default settings, with their clips snapped to its frames
+const migrateSettings = (project: Project): Project => {
+  if (project.settings) return project;
+  const settings = { ...DEFAULT_PROJECT_SETTINGS };
+  return { ...project, settings, timeline: snapTimelineToFrames(project.timeline, settings.frameRate) };
+};
+
+// Step i upgrades a project from schema version i to i + 1; projects saved before versioning are version 0.
+// The first steps predate version numbers, so they check the shape rather than trusting it.
+const MIGRATIONS: ((project: Project) => Project)[] = [
+  migrateTracks,
+  migrateSettings,
+];
+
+export const PROJECT_SCHEMA_VERSION = MIGRATIONS.length;
+
+export const migrateProject = (project: Project): Project => {
+  const version = project.schemaVersion ?? 0;
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`"${project.name}" was saved by a newer version of the editor (schema ${version}; this one reads up to ${PROJECT_SCHEMA_VERSION}).`);
+  }
+  const migrated = MIGRATIONS.slice(version).reduce((current, migrate) => migrate(current), project);
+  return { ...migrated, schemaVersion: PROJECT_SCHEMA_VERSION };
+};
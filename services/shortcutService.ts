@@ -0,0 +1,197 @@
+// Every keyboard shortcut in the editor: what actions exist, their default keys, and the user's own bindings.
+// Combos are strings like "Ctrl+Shift+Z", where Ctrl also matches Cmd on macOS.
+
+export enum ShortcutAction {
+  PLAY_PAUSE = 'playPause',
+  SHUTTLE_REVERSE = 'shuttleReverse',
+  SHUTTLE_STOP = 'shuttleStop',
+  SHUTTLE_FORWARD = 'shuttleForward',
+  FRAME_BACK = 'frameBack',
+  FRAME_FORWARD = 'frameForward',
+  PREVIOUS_EDIT = 'previousEdit',
+  NEXT_EDIT = 'nextEdit',
+  GO_TO_START = 'goToStart',
+  GO_TO_END = 'goToEnd',
+  SELECT_ALL = 'selectAll',
+  COPY = 'copy',
+  CUT = 'cut',
+  PASTE = 'paste',
+  NUDGE_LEFT = 'nudgeLeft',
+  NUDGE_RIGHT = 'nudgeRight',
+  SPLIT = 'split',
+  FREEZE_FRAME = 'freezeFrame',
+  DELETE = 'delete',
+  RIPPLE_DELETE = 'rippleDelete',
+  UNDO = 'undo',
+  REDO = 'redo',
+  ZOOM_IN = 'zoomIn',
+  ZOOM_OUT = 'zoomOut',
+  ZOOM_FIT = 'zoomFit',
+  SHOW_SHORTCUTS = 'showShortcuts',
+}
+
+export type ShortcutBindings = Record<ShortcutAction, string[]>;
+
+interface ShortcutDefinition {
+  label: string;
+  group: string;
+  defaults: string[];
+}
+
+export const SHORTCUT_DEFINITIONS: Record<ShortcutAction, ShortcutDefinition> = {
+  [ShortcutAction.PLAY_PAUSE]: { label: 'Play / Pause', group: 'Playback', defaults: ['Space'] },
+  [ShortcutAction.SHUTTLE_REVERSE]: { label: 'Play Backwards (press again to speed up)', group: 'Playback', defaults: ['J'] },
+  [ShortcutAction.SHUTTLE_STOP]: { label: 'Stop', group: 'Playback', defaults: ['K'] },
+  [ShortcutAction.SHUTTLE_FORWARD]: { label: 'Play Forwards (press again to speed up)', group: 'Playback', defaults: ['L'] },
+  [ShortcutAction.FRAME_BACK]: { label: 'Previous Frame', group: 'Navigation', defaults: ['ArrowLeft'] },
+  [ShortcutAction.FRAME_FORWARD]: { label: 'Next Frame', group: 'Navigation', defaults: ['ArrowRight'] },
+  [ShortcutAction.PREVIOUS_EDIT]: { label: 'Previous Edit Point', group: 'Navigation', defaults: ['ArrowUp'] },
+  [ShortcutAction.NEXT_EDIT]: { label: 'Next Edit Point', group: 'Navigation', defaults: ['ArrowDown'] },
+  [ShortcutAction.GO_TO_START]: { label: 'Go to Start', group: 'Navigation', defaults: ['Home'] },
+  [ShortcutAction.GO_TO_END]: { label: 'Go to End', group: 'Navigation', defaults: ['End'] },
+  [ShortcutAction.SELECT_ALL]: { label: 'Select All Clips', group: 'Selection', defaults: ['Ctrl+A'] },
+  [ShortcutAction.COPY]: { label: 'Copy', group: 'Selection', defaults: ['Ctrl+C'] },
+  [ShortcutAction.CUT]: { label: 'Cut', group: 'Selection', defaults: ['Ctrl+X'] },
+  [ShortcutAction.PASTE]: { label: 'Paste at Playhead', group: 'Selection', defaults: ['Ctrl+V'] },
+  [ShortcutAction.NUDGE_LEFT]: { label: 'Nudge Left One Frame', group: 'Selection', defaults: [',', 'Alt+ArrowLeft'] },
+  [ShortcutAction.NUDGE_RIGHT]: { label: 'Nudge Right One Frame', group: 'Selection', defaults: ['.', 'Alt+ArrowRight'] },
+  [ShortcutAction.SPLIT]: { label: 'Split at Playhead', group: 'Editing', defaults: ['S', 'Ctrl+K'] },
+  [ShortcutAction.FREEZE_FRAME]: { label: 'Freeze Frame at Playhead', group: 'Editing', defaults: ['Shift+F'] },
+  [ShortcutAction.DELETE]: { label: 'Delete', group: 'Editing', defaults: ['Delete', 'Backspace'] },
+  [ShortcutAction.RIPPLE_DELETE]: { label: 'Ripple Delete', group: 'Editing', defaults: ['Shift+Delete', 'Shift+Backspace'] },
+  [ShortcutAction.UNDO]: { label: 'Undo', group: 'Editing', defaults: ['Ctrl+Z'] },
+  [ShortcutAction.REDO]: { label: 'Redo', group: 'Editing', defaults: ['Ctrl+Shift+Z', 'Ctrl+Y'] },
+  [ShortcutAction.ZOOM_IN]: { label: 'Zoom In', group: 'Timeline', defaults: ['=', '+'] },
+  [ShortcutAction.ZOOM_OUT]: { label: 'Zoom Out', group: 'Timeline', defaults: ['-'] },
+  [ShortcutAction.ZOOM_FIT]: { label: 'Fit Project', group: 'Timeline', defaults: ['\\'] },
+  [ShortcutAction.SHOW_SHORTCUTS]: { label: 'Keyboard Shortcuts', group: 'Help', defaults: ['?'] },
+};
+
+const STORAGE_KEY = 'vn-editor-shortcuts';
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+// Named keys, so combos read the same on every keyboard layout
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  Esc: 'Escape',
+  Del: 'Delete',
+  Left: 'ArrowLeft',
+  Right: 'ArrowRight',
+  Up: 'ArrowUp',
+  Down: 'ArrowDown',
+};
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// The combo a key press stands for, or null for a bare modifier
+export const eventToCombo = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const key = KEY_NAMES[e.key] ?? (e.key.length === 1 ? e.key.toUpperCase() : e.key);
+  // Shifted symbols ("?", "+") already say Shift; letters and named keys don't
+  const symbol = key.length === 1 && key.toLowerCase() === key.toUpperCase();
+
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey && !symbol) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+// Display form: Mac symbols on macOS, readable names elsewhere
+export const formatCombo = (combo: string): string =>
+  combo
+    .split(/\+(?!$)/) // A trailing "+" is the key itself
+    .map(part => {
+      if (IS_MAC && part === 'Ctrl') return '⌘';
+      if (IS_MAC && part === 'Alt') return '⌥';
+      if (IS_MAC && part === 'Shift') return '⇧';
+      return { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓', Delete: 'Del' }[part] ?? part;
+    })
+    .join(IS_MAC ? '' : '+');
+
+// First binding of an action, for button tooltips
+export const getShortcutHint = (bindings: ShortcutBindings, action: ShortcutAction): string =>
+  bindings[action][0] ? ` (${formatCombo(bindings[action][0])})` : '';
+
+// Typing in a field never triggers shortcuts
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || ['TEXTAREA', 'SELECT'].includes(target.tagName)) return true;
+  // Sliders, checkboxes and the like take no text, so shortcuts keep working from them
+  return target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'color', 'button'].includes(target.type);
+};
+
+export const findAction = (bindings: ShortcutBindings, combo: string): ShortcutAction | undefined =>
+  (Object.keys(bindings) as ShortcutAction[]).find(action => bindings[action].includes(combo));
+
+// --- Bindings Store ---
+
+const getDefaultBindings = (): ShortcutBindings =>
+  Object.fromEntries(
+    Object.entries(SHORTCUT_DEFINITIONS).map(([action, definition]) => [action, [...definition.defaults]])
+  ) as ShortcutBindings;
+
+// Saved bindings only hold actions the user changed; new actions pick up their defaults
+const loadBindings = (): ShortcutBindings => {
+  const bindings = getDefaultBindings();
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    for (const action of Object.values(ShortcutAction)) {
+      if (Array.isArray(saved[action])) bindings[action] = saved[action].filter((c: unknown) => typeof c === 'string');
+    }
+  } catch (e) {
+    console.error("Failed to load keyboard shortcuts", e);
+  }
+  return bindings;
+};
+
+let currentBindings: ShortcutBindings | null = null;
+const listeners = new Set<() => void>();
+
+export const getBindings = (): ShortcutBindings => {
+  if (!currentBindings) currentBindings = loadBindings();
+  return currentBindings;
+};
+
+export const subscribeBindings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const storeBindings = (bindings: ShortcutBindings) => {
+  currentBindings = bindings;
+  const defaults = getDefaultBindings();
+  const changed = Object.fromEntries(
+    Object.values(ShortcutAction)
+      .filter(action => bindings[action].join('|') !== defaults[action].join('|'))
+      .map(action => [action, bindings[action]])
+  );
+  try {
+    if (Object.keys(changed).length > 0) localStorage.setItem(STORAGE_KEY, JSON.stringify(changed));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (e) {
+    console.error("Failed to save keyboard shortcuts", e);
+  }
+  listeners.forEach(listener => listener());
+};
+
+// Binds a combo to an action, taking it away from whichever action had it. Returns that action, if any.
+export const assignCombo = (action: ShortcutAction, combo: string, replacing?: string): ShortcutAction | undefined => {
+  const bindings = getBindings();
+  const previousOwner = findAction(bindings, combo);
+  const next = { ...bindings };
+  if (previousOwner) next[previousOwner] = next[previousOwner].filter(c => c !== combo);
+  const own = next[action].filter(c => c !== replacing && c !== combo);
+  next[action] = [...own, combo];
+  storeBindings(next);
+  return previousOwner !== action ? previousOwner : undefined;
+};
+
+export const removeCombo = (action: ShortcutAction, combo: string) => {
+  const bindings = getBindings();
+  storeBindings({ ...bindings, [action]: bindings[action].filter(c => c !== combo) });
+};
+
+export const resetBindings = () => storeBindings(getDefaultBindings());
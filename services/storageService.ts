@@ -1,43 +1,569 @@
-import { Project } from '../types';
+import { Project, MediaAsset, MediaType } from '../types';
+import { isFromNewerVersion, readProject } from './projectSchema';
 
-const STORAGE_KEY = 'vn-editor-projects';
+const DB_NAME = 'vn-editor';
+const DB_VERSION = 3;
+
+const PROJECT_STORE = 'projects';
+const MEDIA_STORE = 'media'; // Raw media bytes, keyed by asset id
+const THUMBNAIL_STORE = 'thumbnails'; // Small poster images, keyed by asset id
+const QUARANTINE_STORE = 'quarantine'; // Stored projects that failed validation, kept as they were
+const SNAPSHOT_STORE = 'snapshots'; // Named copies of a project, indexed by project id
+
+// Which project was open in the editor, cleared when it is closed normally. If it is still set on
+// startup, the tab was closed or crashed mid-edit.
+const OPEN_PROJECT_KEY = 'vn-editor-open-project';
+
+// Projects saved by older versions of the editor (structure only, no media)
+const LEGACY_STORAGE_KEY = 'vn-editor-projects';
+
+interface StoredBlob {
+  id: string;
+  blob: Blob;
+}
+
+// A project record the editor could not read, moved aside so it can't break the project list
+export interface QuarantinedProject {
+  id: string;
+  name: string;
+  error: string;
+  quarantinedAt: number;
+  record: unknown; // Exactly what was stored
+}
+
+// A stored project written by a newer version of the editor, left in place until it can be opened
+export interface NewerVersionProject {
+  id: string;
+  name: string;
+  schemaVersion: number;
+}
+
+export interface ProjectSnapshot {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: number;
+}
+
+interface StoredSnapshot extends ProjectSnapshot {
+  project: Project;
+}
+
+export interface OpenProjectSession {
+  projectId: string;
+  name: string;
+  openedAt: number;
+}
+
+export interface StorageUsage {
+  usage: number; // Bytes used by this origin
+  quota: number; // Bytes the browser is willing to give us
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECT_STORE)) db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(MEDIA_STORE)) db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(THUMBNAIL_STORE)) db.createObjectStore(THUMBNAIL_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE)) db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).then(async (db) => {
+    await migrateLegacyProjects(db);
+    return db;
+  });
+
+  // Allow a retry on the next call if opening failed (e.g. private browsing)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// One-time move of localStorage projects into IndexedDB.
+const migrateLegacyProjects = async (db: IDBDatabase): Promise<void> => {
+  const data = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!data) return;
 
-export const saveProject = (project: Project): void => {
   try {
-    const existing = getProjects();
-    const index = existing.findIndex((p) => p.id === project.id);
-    
-    // We cannot store Blob URLs in localStorage as they expire.
-    // In a real app, we would use IndexedDB.
-    // For this simulation, we will warn the user or only store metadata if we can't store base64.
-    // However, to make this functional for the demo session, we will attempt to store minimal data.
-    // NOTE: This demo primarily relies on runtime state. Refreshing will lose Blob URLs.
-    
-    if (index >= 0) {
-      existing[index] = { ...project, lastModified: Date.now() };
-    } else {
-      existing.push({ ...project, lastModified: Date.now() });
+    const legacy: Project[] = JSON.parse(data);
+    const tx = db.transaction(PROJECT_STORE, 'readwrite');
+    const store = tx.objectStore(PROJECT_STORE);
+    for (const project of legacy) {
+      const existing = await requestToPromise(store.getKey(project.id));
+      if (existing === undefined) store.put(project);
     }
-    
-    // Filter out heavy assets for local storage limitation in this demo to prevent quota errors
-    // We only save the structure, losing actual media on refresh is expected for a pure localStorage text demo
-    // without IndexedDB implementation.
-    const safeToSave = existing.map(p => ({
-      ...p,
-      assets: [] // Intentionally not saving huge blobs to localStorage to avoid crash
-    }));
-
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(safeToSave));
+    await transactionDone(tx);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
   } catch (e) {
-    console.error("Failed to save project structure", e);
+    console.error("Failed to migrate legacy projects", e);
+  }
+};
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
   }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
 };
 
-export const getProjects = (): Project[] => {
+// Blob and Data URLs both resolve through fetch, so AI-generated images are handled the same as uploads.
+const srcToBlob = async (src: string): Promise<Blob | null> => {
+  if (!src || !(src.startsWith('blob:') || src.startsWith('data:'))) return null;
+  const response = await fetch(src);
+  return response.blob();
+};
+
+// Strip runtime-only URLs so the stored JSON never references dead blobs.
+const toStoredAsset = (asset: MediaAsset): MediaAsset => ({
+  ...asset,
+  src: asset.src.startsWith('blob:') || asset.src.startsWith('data:') ? '' : asset.src,
+  thumbnail: undefined,
+});
+
+interface NewMedia {
+  media: StoredBlob[];
+  thumbnails: StoredBlob[];
+  unavailable: string[]; // Names of assets whose media URL no longer resolves
+}
+
+// Reads every blob not stored yet up front: IndexedDB transactions auto-commit if we await anything else mid-way.
+const collectNewMedia = async (db: IDBDatabase, assets: MediaAsset[]): Promise<NewMedia> => {
+  const mediaTx = db.transaction([MEDIA_STORE, THUMBNAIL_STORE], 'readonly');
+  const [storedMedia, storedThumbnails] = await Promise.all([
+    requestToPromise(mediaTx.objectStore(MEDIA_STORE).getAllKeys()),
+    requestToPromise(mediaTx.objectStore(THUMBNAIL_STORE).getAllKeys()),
+  ]);
+  const mediaKeys = new Set(storedMedia);
+  const thumbnailKeys = new Set(storedThumbnails);
+
+  const collected: NewMedia = { media: [], thumbnails: [], unavailable: [] };
+  for (const asset of assets) {
+    if (!mediaKeys.has(asset.id)) {
+      const blob = await srcToBlob(asset.src).catch(() => {
+        collected.unavailable.push(asset.name);
+        return null;
+      });
+      if (blob) collected.media.push({ id: asset.id, blob });
+    }
+    if (asset.thumbnail && !thumbnailKeys.has(asset.id)) {
+      // A missing poster is not worth failing a save over
+      const blob = await srcToBlob(asset.thumbnail).catch(() => null);
+      if (blob) collected.thumbnails.push({ id: asset.id, blob });
+    }
+  }
+  return collected;
+};
+
+// Writes new media plus a record that embeds the project, in one transaction.
+// Media that can no longer be read fails the write by name, rather than being stored as an empty asset.
+const storeProjectRecord = async (
+  project: Project,
+  store: string,
+  toRecord: (stored: Project) => object
+): Promise<void> => {
+  let unavailable: string[] = [];
+  try {
+    const db = await openDatabase();
+    const collected = await collectNewMedia(db, project.assets);
+    unavailable = collected.unavailable;
+
+    if (unavailable.length === 0) {
+      const tx = db.transaction([store, MEDIA_STORE, THUMBNAIL_STORE], 'readwrite');
+      collected.media.forEach(record => tx.objectStore(MEDIA_STORE).put(record));
+      collected.thumbnails.forEach(record => tx.objectStore(THUMBNAIL_STORE).put(record));
+      tx.objectStore(store).put(toRecord({ ...project, assets: project.assets.map(toStoredAsset) }));
+      await transactionDone(tx);
+    }
+  } catch (e) {
+    console.error("Failed to save project", e);
+    if (isQuotaError(e)) {
+      const usage = await getStorageUsage().catch(() => null);
+      const detail = usage ? ` (${formatBytes(usage.usage)} of ${formatBytes(usage.quota)} used)` : '';
+      throw new Error(`The browser refused to store this project because storage is full${detail}. Remove unused projects or media and try again.`);
+    }
+    throw new Error("Failed to save project to browser storage.");
+  }
+
+  if (unavailable.length > 0) {
+    throw new Error(`The media for ${unavailable.map(name => `"${name}"`).join(', ')} is no longer available, so nothing was saved. Remove it from the project and try again.`);
+  }
+};
+
+export const saveProject = async (project: Project): Promise<Project> => {
+  const saved: Project = { ...project, lastModified: Date.now() };
+  await storeProjectRecord(saved, PROJECT_STORE, stored => stored);
+  return saved;
+};
+
+// Turns stored blobs back into object URLs that are valid for this session.
+const rehydrateAssets = async (db: IDBDatabase, assets: MediaAsset[]): Promise<MediaAsset[]> => {
+  const tx = db.transaction([MEDIA_STORE, THUMBNAIL_STORE], 'readonly');
+  const mediaStore = tx.objectStore(MEDIA_STORE);
+  const thumbnailStore = tx.objectStore(THUMBNAIL_STORE);
+
+  return Promise.all(assets.map(async (asset) => {
+    const [media, thumbnail] = await Promise.all([
+      requestToPromise<StoredBlob | undefined>(mediaStore.get(asset.id)),
+      requestToPromise<StoredBlob | undefined>(thumbnailStore.get(asset.id)),
+    ]);
+    return {
+      ...asset,
+      src: media ? URL.createObjectURL(media.blob) : asset.src,
+      thumbnail: thumbnail ? URL.createObjectURL(thumbnail.blob) : asset.thumbnail,
+    };
+  }));
+};
+
+// Moves unreadable project records out of the project store
+const quarantineProjects = async (db: IDBDatabase, records: QuarantinedProject[]): Promise<void> => {
+  const tx = db.transaction([PROJECT_STORE, QUARANTINE_STORE], 'readwrite');
+  records.forEach(record => {
+    tx.objectStore(PROJECT_STORE).delete(record.id);
+    tx.objectStore(QUARANTINE_STORE).put(record);
+  });
+  await transactionDone(tx);
+  records.forEach(record => console.warn(`Quarantined project ${record.id}: ${record.error}`));
+};
+
+const toQuarantined = (record: unknown, error: unknown): QuarantinedProject => {
+  const fields = (record ?? {}) as Partial<Project>;
+  return {
+    id: String(fields.id),
+    name: typeof fields.name === 'string' ? fields.name : 'Untitled Project',
+    error: error instanceof Error ? error.message : String(error),
+    quarantinedAt: Date.now(),
+    record,
+  };
+};
+
+export const loadProject = async (projectId: string): Promise<Project | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECT_STORE, 'readonly');
+  const stored = await requestToPromise<unknown>(tx.objectStore(PROJECT_STORE).get(projectId));
+  if (!stored) return null;
+
+  let project: Project;
   try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    return data ? JSON.parse(data) : [];
+    project = readProject(stored);
   } catch (e) {
+    if (!isFromNewerVersion(stored)) await quarantineProjects(db, [toQuarantined(stored, e)]);
+    throw e;
+  }
+  return { ...project, assets: await rehydrateAssets(db, project.assets) };
+};
+
+// Object URLs keep their blobs alive until revoked; call this when a loaded project is closed.
+export const releaseProjectMedia = (project: Project): void => {
+  project.assets.forEach(asset => {
+    if (asset.src.startsWith('blob:')) URL.revokeObjectURL(asset.src);
+    if (asset.thumbnail?.startsWith('blob:')) URL.revokeObjectURL(asset.thumbnail);
+  });
+};
+
+// Project structures only; media is not rehydrated. Records that fail validation are quarantined, not returned.
+// Records from a newer version of the editor are skipped and left where they are.
+export const getProjects = async (): Promise<Project[]> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(PROJECT_STORE, 'readonly');
+    const stored = await requestToPromise<unknown[]>(tx.objectStore(PROJECT_STORE).getAll());
+
+    const projects: Project[] = [];
+    const invalid: QuarantinedProject[] = [];
+    for (const record of stored) {
+      if (isFromNewerVersion(record)) continue;
+      try {
+        projects.push(readProject(record));
+      } catch (e) {
+        invalid.push(toQuarantined(record, e));
+      }
+    }
+    if (invalid.length > 0) {
+      await quarantineProjects(db, invalid).catch(e => console.error("Failed to quarantine projects", e));
+    }
+    return projects;
+  } catch (e) {
+    console.error("Failed to read projects", e);
     return [];
   }
 };
+
+const getNewerVersionRecords = async (db: IDBDatabase): Promise<Partial<Project>[]> => {
+  const tx = db.transaction(PROJECT_STORE, 'readonly');
+  const stored = await requestToPromise<unknown[]>(tx.objectStore(PROJECT_STORE).getAll());
+  return stored.filter(isFromNewerVersion) as Partial<Project>[];
+};
+
+export const getNewerVersionProjects = async (): Promise<NewerVersionProject[]> => {
+  const db = await openDatabase();
+  return (await getNewerVersionRecords(db)).map(record => ({
+    id: String(record.id),
+    name: typeof record.name === 'string' ? record.name : 'Untitled Project',
+    schemaVersion: record.schemaVersion!,
+  }));
+};
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  lastModified: number;
+  duration: number;
+  posterUrl?: string; // Object URL; release with releaseProjectSummaries
+}
+
+const getProjectDuration = (project: Project): number =>
+  project.timeline.reduce((max, clip) => Math.max(max, clip.startOffset + clip.duration), 0);
+
+// Poster is the first visual clip on the timeline, falling back to the first visual asset.
+const getPosterAssetId = (project: Project): string | undefined => {
+  const visualIds = new Set(
+    project.assets.filter(a => a.type === MediaType.VIDEO || a.type === MediaType.IMAGE).map(a => a.id)
+  );
+  const firstClip = [...project.timeline]
+    .sort((a, b) => a.startOffset - b.startOffset)
+    .find(c => visualIds.has(c.assetId));
+  return firstClip?.assetId ?? visualIds.values().next().value;
+};
+
+export const getProjectSummaries = async (): Promise<ProjectSummary[]> => {
+  const projects = await getProjects();
+  const db = await openDatabase();
+  const tx = db.transaction(THUMBNAIL_STORE, 'readonly');
+  const thumbnailStore = tx.objectStore(THUMBNAIL_STORE);
+
+  const summaries = await Promise.all(projects.map(async (project) => {
+    const posterId = getPosterAssetId(project);
+    const poster = posterId
+      ? await requestToPromise<StoredBlob | undefined>(thumbnailStore.get(posterId))
+      : undefined;
+    return {
+      id: project.id,
+      name: project.name,
+      lastModified: project.lastModified,
+      duration: getProjectDuration(project),
+      posterUrl: poster ? URL.createObjectURL(poster.blob) : undefined,
+    };
+  }));
+
+  return summaries.sort((a, b) => b.lastModified - a.lastModified);
+};
+
+export const releaseProjectSummaries = (summaries: ProjectSummary[]): void => {
+  summaries.forEach(s => { if (s.posterUrl) URL.revokeObjectURL(s.posterUrl); });
+};
+
+// Ids already in use in browser storage, so imported projects never overwrite existing records
+export const getStoredIds = async (): Promise<{ projects: Set<string>; assets: Set<string> }> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECT_STORE, MEDIA_STORE, THUMBNAIL_STORE], 'readonly');
+  const [projects, media, thumbnails] = await Promise.all([
+    requestToPromise(tx.objectStore(PROJECT_STORE).getAllKeys()),
+    requestToPromise(tx.objectStore(MEDIA_STORE).getAllKeys()),
+    requestToPromise(tx.objectStore(THUMBNAIL_STORE).getAllKeys()),
+  ]);
+  return { projects: new Set(projects.map(String)), assets: new Set([...media, ...thumbnails].map(String)) };
+};
+
+const getStoredProject = async (db: IDBDatabase, projectId: string): Promise<Project> => {
+  const tx = db.transaction(PROJECT_STORE, 'readonly');
+  const stored = await requestToPromise<Project | undefined>(tx.objectStore(PROJECT_STORE).get(projectId));
+  if (!stored) throw new Error("Project not found.");
+  return stored;
+};
+
+export const renameProject = async (projectId: string, name: string): Promise<void> => {
+  const db = await openDatabase();
+  const stored = await getStoredProject(db, projectId);
+  const tx = db.transaction(PROJECT_STORE, 'readwrite');
+  tx.objectStore(PROJECT_STORE).put({ ...stored, name, lastModified: Date.now() });
+  await transactionDone(tx);
+};
+
+// Duplicates share media records with the original; blobs are only removed once no project references them.
+export const duplicateProject = async (projectId: string): Promise<Project> => {
+  const db = await openDatabase();
+  const stored = await getStoredProject(db, projectId);
+  const copy: Project = {
+    ...stored,
+    id: crypto.randomUUID(),
+    name: `${stored.name} (Copy)`,
+    lastModified: Date.now(),
+  };
+  const tx = db.transaction(PROJECT_STORE, 'readwrite');
+  tx.objectStore(PROJECT_STORE).put(copy);
+  await transactionDone(tx);
+  return copy;
+};
+
+export const getQuarantinedProjects = async (): Promise<QuarantinedProject[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(QUARANTINE_STORE, 'readonly');
+  const records = await requestToPromise<QuarantinedProject[]>(tx.objectStore(QUARANTINE_STORE).getAll());
+  return records.sort((a, b) => b.quarantinedAt - a.quarantinedAt);
+};
+
+// Asset ids a raw stored project (quarantined or in a snapshot) points at, as far as they can be read from it
+const getRecordAssetIds = (records: unknown[]): string[] =>
+  records.flatMap(record => {
+    const assets = (record as Partial<Project> | null)?.assets;
+    return Array.isArray(assets) ? assets.map(a => a?.id).filter((id): id is string => typeof id === 'string') : [];
+  });
+
+const getAllSnapshots = async (db: IDBDatabase): Promise<StoredSnapshot[]> => {
+  const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+  return requestToPromise<StoredSnapshot[]>(tx.objectStore(SNAPSHOT_STORE).getAll());
+};
+
+// Asset ids referenced by anything other than the records being removed. Media a quarantined record
+// points at stays too, in case the record is repaired, and so does media of projects from a newer version.
+const getUsedAssetIds = async (db: IDBDatabase, removedProjectId: string | null, removedSnapshotIds: Set<string>): Promise<Set<string>> => {
+  const [projects, newer, quarantined, snapshots] = await Promise.all([
+    getProjects(),
+    getNewerVersionRecords(db),
+    getQuarantinedProjects(),
+    getAllSnapshots(db),
+  ]);
+  return new Set([
+    ...projects.filter(p => p.id !== removedProjectId).flatMap(p => p.assets.map(a => a.id)),
+    ...getRecordAssetIds(newer),
+    ...getRecordAssetIds(quarantined.filter(q => q.id !== removedProjectId).map(q => q.record)),
+    ...getRecordAssetIds(snapshots.filter(s => !removedSnapshotIds.has(s.id)).map(s => s.project)),
+  ]);
+};
+
+const deleteUnusedMedia = (tx: IDBTransaction, assetIds: string[], stillUsed: Set<string>) => {
+  new Set(assetIds).forEach(assetId => {
+    if (stillUsed.has(assetId)) return;
+    tx.objectStore(MEDIA_STORE).delete(assetId);
+    tx.objectStore(THUMBNAIL_STORE).delete(assetId);
+  });
+};
+
+// Deletes a project record (from `store`) together with its snapshots and the media nothing else uses
+const removeProjectRecord = async (db: IDBDatabase, store: string, projectId: string, assetIds: string[]): Promise<void> => {
+  const own = (await getAllSnapshots(db)).filter(s => s.projectId === projectId);
+  const stillUsed = await getUsedAssetIds(db, projectId, new Set(own.map(s => s.id)));
+
+  const tx = db.transaction([store, SNAPSHOT_STORE, MEDIA_STORE, THUMBNAIL_STORE], 'readwrite');
+  tx.objectStore(store).delete(projectId);
+  own.forEach(snapshot => tx.objectStore(SNAPSHOT_STORE).delete(snapshot.id));
+  deleteUnusedMedia(tx, [...assetIds, ...getRecordAssetIds(own.map(s => s.project))], stillUsed);
+  await transactionDone(tx);
+};
+
+// Works on the stored record as it is, so projects from a newer version of the editor can be deleted too
+export const deleteProject = async (projectId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECT_STORE, 'readonly');
+  const target = await requestToPromise<unknown>(tx.objectStore(PROJECT_STORE).get(projectId));
+  if (!target) return;
+  await removeProjectRecord(db, PROJECT_STORE, projectId, getRecordAssetIds([target]));
+};
+
+// Permanently removes a quarantined record along with any media no other project uses
+export const discardQuarantinedProject = async (projectId: string): Promise<void> => {
+  const db = await openDatabase();
+  const target = (await getQuarantinedProjects()).find(q => q.id === projectId);
+  if (!target) return;
+  await removeProjectRecord(db, QUARANTINE_STORE, projectId, getRecordAssetIds([target.record]));
+};
+
+// --- Snapshots ---
+
+// Snapshots share media records with the project, so taking one only stores media added since the last save
+export const saveSnapshot = async (project: Project, name: string): Promise<ProjectSnapshot> => {
+  const snapshot: ProjectSnapshot = { id: crypto.randomUUID(), projectId: project.id, name, createdAt: Date.now() };
+  await storeProjectRecord(project, SNAPSHOT_STORE, stored => ({ ...snapshot, project: stored }));
+  return snapshot;
+};
+
+// Newest first, without their project data
+export const getSnapshots = async (projectId: string): Promise<ProjectSnapshot[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+  const records = await requestToPromise<StoredSnapshot[]>(tx.objectStore(SNAPSHOT_STORE).index('projectId').getAll(projectId));
+  return records
+    .map(({ project, ...snapshot }) => snapshot)
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// The snapshot's project, migrated and with its media rehydrated like loadProject
+export const loadSnapshot = async (snapshotId: string): Promise<Project> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+  const record = await requestToPromise<StoredSnapshot | undefined>(tx.objectStore(SNAPSHOT_STORE).get(snapshotId));
+  if (!record) throw new Error("Snapshot not found.");
+  const project = readProject(record.project);
+  return { ...project, assets: await rehydrateAssets(db, project.assets) };
+};
+
+export const deleteSnapshot = async (snapshotId: string): Promise<void> => {
+  const db = await openDatabase();
+  const target = (await getAllSnapshots(db)).find(s => s.id === snapshotId);
+  if (!target) return;
+  const stillUsed = await getUsedAssetIds(db, null, new Set([snapshotId]));
+
+  const tx = db.transaction([SNAPSHOT_STORE, MEDIA_STORE, THUMBNAIL_STORE], 'readwrite');
+  tx.objectStore(SNAPSHOT_STORE).delete(snapshotId);
+  deleteUnusedMedia(tx, getRecordAssetIds([target.project]), stillUsed);
+  await transactionDone(tx);
+};
+
+// --- Unclosed sessions ---
+
+export const markProjectOpen = (project: Project): void => {
+  const session: OpenProjectSession = { projectId: project.id, name: project.name, openedAt: Date.now() };
+  localStorage.setItem(OPEN_PROJECT_KEY, JSON.stringify(session));
+};
+
+export const markProjectClosed = (): void => {
+  localStorage.removeItem(OPEN_PROJECT_KEY);
+};
+
+// The project that was still open when the editor last went away without closing it
+export const getUnclosedSession = (): OpenProjectSession | null => {
+  try {
+    const session = JSON.parse(localStorage.getItem(OPEN_PROJECT_KEY) ?? 'null');
+    return typeof session?.projectId === 'string' ? session : null;
+  } catch {
+    return null;
+  }
+};
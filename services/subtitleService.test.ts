@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { Project, SubtitleFormat, TrackKind } from '../types';
+import { createProject, createTrack } from './projectService';
+import { createSubtitleClips, getTrackSubtitles, parseSubtitles, serializeSubtitles } from './subtitleService';
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+Hello there
+
+2
+00:00:04,000 --> 00:01:02,250 X1:40 X2:600 Y1:20 Y2:50
+Two lines
+of text
+`;
+
+const VTT = `WEBVTT - Sample
+Kind: captions
+
+STYLE
+::cue {
+  color: yellow;
+}
+
+REGION
+id:bottom
+width:40%
+
+NOTE Written by hand
+
+intro
+00:00:01.000 --> 00:00:03.500 align:start line:90%
+<v Narrator>Hello there</v>
+
+NOTE Speaker changes
+here
+
+00:00:04.000 --> 01:00:02.250 region:bottom
+Two lines
+of text
+
+NOTE The end
+`;
+
+describe('SRT', () => {
+  it('round-trips unchanged', () => {
+    expect(serializeSubtitles(parseSubtitles(SRT, SubtitleFormat.SRT), SubtitleFormat.SRT)).toBe(SRT);
+  });
+
+  it('keeps timings, settings and multi-line text', () => {
+    const { cues } = parseSubtitles(SRT, SubtitleFormat.SRT);
+    expect(cues).toHaveLength(2);
+    expect(cues[0]).toMatchObject({ start: 1, end: 3.5, text: 'Hello there' });
+    expect(cues[1]).toMatchObject({ start: 4, end: 62.25, text: 'Two lines\nof text', settings: 'X1:40 X2:600 Y1:20 Y2:50' });
+    expect(cues[0].identifier).toBeUndefined();
+  });
+
+  it('renumbers cues on export', () => {
+    const shuffled = SRT.replace(/^1$/m, '7').replace(/^2$/m, '9');
+    expect(serializeSubtitles(parseSubtitles(shuffled, SubtitleFormat.SRT), SubtitleFormat.SRT)).toBe(SRT);
+  });
+});
+
+describe('WebVTT', () => {
+  it('round-trips unchanged', () => {
+    expect(serializeSubtitles(parseSubtitles(VTT, SubtitleFormat.VTT), SubtitleFormat.VTT)).toBe(VTT);
+  });
+
+  it('keeps the header with its STYLE and REGION blocks', () => {
+    const document = parseSubtitles(VTT, SubtitleFormat.VTT);
+    expect(document.header).toBe('WEBVTT - Sample\nKind: captions\n\nSTYLE\n::cue {\n  color: yellow;\n}\n\nREGION\nid:bottom\nwidth:40%');
+  });
+
+  it('keeps cue ids, settings, notes and multi-line text', () => {
+    const { cues, trailingNotes } = parseSubtitles(VTT, SubtitleFormat.VTT);
+    expect(cues[0]).toMatchObject({
+      identifier: 'intro',
+      settings: 'align:start line:90%',
+      notes: ['NOTE Written by hand'],
+      text: '<v Narrator>Hello there</v>',
+    });
+    expect(cues[1]).toMatchObject({
+      start: 4,
+      end: 3602.25,
+      settings: 'region:bottom',
+      notes: ['NOTE Speaker changes\nhere'],
+      text: 'Two lines\nof text',
+    });
+    expect(cues[1].identifier).toBeUndefined();
+    expect(trailingNotes).toEqual(['NOTE The end']);
+  });
+
+  it('normalizes CRLF line endings and a byte order mark', () => {
+    const windows = '\uFEFF' + VTT.replace(/\n/g, '\r\n');
+    expect(serializeSubtitles(parseSubtitles(windows, SubtitleFormat.VTT), SubtitleFormat.VTT)).toBe(VTT);
+  });
+
+  it('drops VTT-only data when converting to SRT', () => {
+    const srt = serializeSubtitles(parseSubtitles(VTT, SubtitleFormat.VTT), SubtitleFormat.SRT);
+    expect(srt).toBe('1\n00:00:01,000 --> 00:00:03,500\n<v Narrator>Hello there</v>\n\n2\n00:00:04,000 --> 01:00:02,250\nTwo lines\nof text\n');
+  });
+
+  it('rejects a file without the WEBVTT header', () => {
+    expect(() => parseSubtitles('00:00:01.000 --> 00:00:02.000\nHi\n', SubtitleFormat.VTT)).toThrow(/WEBVTT/);
+  });
+});
+
+describe('importing into a project', () => {
+  // What the editor does with an imported file: its cues become clips on a new subtitle track
+  const importInto = (content: string, format: SubtitleFormat): Project => {
+    const project = createProject('Subtitles');
+    const track = createTrack(TrackKind.SUBTITLE, 'Subtitles', project.tracks.length);
+    const { asset, clips } = createSubtitleClips(parseSubtitles(content, format), 'sample', track.id, project.settings.frameRate);
+    return { ...project, assets: [asset], tracks: [...project.tracks, track], timeline: clips };
+  };
+  const exportFrom = (project: Project, format: SubtitleFormat) =>
+    serializeSubtitles(getTrackSubtitles(project, project.tracks[project.tracks.length - 1].id), format);
+
+  it('puts the clips on frames', () => {
+    const project = importInto(SRT, SubtitleFormat.SRT);
+    expect(project.timeline[1].startOffset + project.timeline[1].duration).toBeCloseTo(62.2667, 4);
+  });
+
+  it('exports the times from the file unchanged', () => {
+    expect(exportFrom(importInto(SRT, SubtitleFormat.SRT), SubtitleFormat.SRT)).toBe(SRT);
+    expect(exportFrom(importInto(VTT, SubtitleFormat.VTT), SubtitleFormat.VTT)).toBe(VTT);
+  });
+
+  it('exports the new times of a cue that was moved', () => {
+    const project = importInto(SRT, SubtitleFormat.SRT);
+    project.timeline = project.timeline.map((clip, i) => i === 0 ? { ...clip, startOffset: 2 } : clip);
+    expect(exportFrom(project, SubtitleFormat.SRT)).toContain('1\n00:00:02,000 --> 00:00:04,500\nHello there');
+    expect(exportFrom(project, SubtitleFormat.SRT)).toContain('00:00:04,000 --> 00:01:02,250');
+  });
+});
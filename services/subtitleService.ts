@@ -0,0 +1,205 @@
+import { Project, MediaAsset, MediaType, SubtitleCue, SubtitleFormat, SubtitleSource, TimelineClip } from '../types';
+import { snapClipToFrames } from './timecode';
+
+// SRT and WebVTT parsing and serialization. Parsing keeps everything the formats can carry
+// (cue ids, cue settings, notes, the VTT header) so a file survives import and export unchanged
+// apart from whitespace normalization and SRT renumbering.
+
+export interface ParsedCue extends SubtitleCue {
+  start: number; // Seconds
+  end: number;
+}
+
+export interface SubtitleDocument extends SubtitleSource {
+  cues: ParsedCue[];
+}
+
+export const SUBTITLE_EXTENSIONS = ['.srt', '.vtt'];
+
+const TIMING_PATTERN = /^\s*(\S+)\s+-->\s+(\S+)(.*)$/;
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/;
+
+export const getSubtitleFormat = (fileName: string, content: string): SubtitleFormat =>
+  fileName.toLowerCase().endsWith('.vtt') || content.replace(/^\uFEFF/, '').startsWith('WEBVTT')
+    ? SubtitleFormat.VTT
+    : SubtitleFormat.SRT;
+
+export const isSubtitleFile = (file: File) =>
+  SUBTITLE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
+const parseTimestamp = (value: string, lineNumber: number): number => {
+  const match = TIMESTAMP_PATTERN.exec(value);
+  if (!match) throw new Error(`Invalid timestamp "${value}" on line ${lineNumber}.`);
+  const [, hours, minutes, seconds, fraction] = match;
+  return (Number(hours ?? 0) * 3600) + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+};
+
+const formatTimestamp = (time: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(time * 1000));
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor(totalMs / 60_000) % 60;
+  const seconds = Math.floor(totalMs / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+// Blocks are separated by blank lines; line numbers are kept for error messages
+const splitBlocks = (content: string): { lines: string[]; firstLine: number }[] => {
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const blocks: { lines: string[]; firstLine: number }[] = [];
+  let current: string[] = [];
+  let firstLine = 1;
+
+  lines.forEach((line, i) => {
+    if (line.trim() === '') {
+      if (current.length > 0) blocks.push({ lines: current, firstLine });
+      current = [];
+      return;
+    }
+    if (current.length === 0) firstLine = i + 1;
+    current.push(line);
+  });
+  if (current.length > 0) blocks.push({ lines: current, firstLine });
+  return blocks;
+};
+
+export const parseSubtitles = (content: string, format: SubtitleFormat): SubtitleDocument => {
+  const blocks = splitBlocks(content);
+  const document: SubtitleDocument = { format, cues: [] };
+  const headerBlocks: string[] = [];
+  let pendingNotes: string[] = [];
+
+  blocks.forEach(({ lines, firstLine }, index) => {
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+
+    if (format === SubtitleFormat.VTT && timingIndex === -1) {
+      const block = lines.join('\n');
+      if (index === 0) {
+        if (!lines[0].startsWith('WEBVTT')) throw new Error('Not a WebVTT file: missing "WEBVTT" header.');
+        headerBlocks.push(block);
+      } else if (lines[0].startsWith('NOTE')) {
+        pendingNotes.push(block);
+      } else if (document.cues.length === 0 && /^(STYLE|REGION)\b/.test(lines[0])) {
+        headerBlocks.push(block);
+      } else {
+        throw new Error(`Unexpected text on line ${firstLine}.`);
+      }
+      return;
+    }
+
+    if (timingIndex === -1) throw new Error(`Missing cue timing on line ${firstLine}.`);
+    if (timingIndex > 1) throw new Error(`Unexpected text before the cue timing on line ${firstLine}.`);
+
+    const timingLine = firstLine + timingIndex;
+    const timing = TIMING_PATTERN.exec(lines[timingIndex]);
+    if (!timing) throw new Error(`Invalid cue timing on line ${timingLine}.`);
+
+    const start = parseTimestamp(timing[1], timingLine);
+    const end = parseTimestamp(timing[2], timingLine);
+    if (end <= start) throw new Error(`Cue ends before it starts on line ${timingLine}.`);
+
+    const cue: ParsedCue = { start, end, text: lines.slice(timingIndex + 1).join('\n') };
+    // SRT numbers are just positions; WebVTT ids are meaningful and kept
+    if (timingIndex === 1 && format === SubtitleFormat.VTT) cue.identifier = lines[0];
+    const settings = timing[3].trim();
+    if (settings) cue.settings = settings;
+    if (pendingNotes.length > 0) cue.notes = pendingNotes;
+    pendingNotes = [];
+
+    document.cues.push(cue);
+  });
+
+  if (format === SubtitleFormat.VTT) {
+    if (headerBlocks.length === 0) throw new Error('Not a WebVTT file: missing "WEBVTT" header.');
+    document.header = headerBlocks.join('\n\n');
+    if (pendingNotes.length > 0) document.trailingNotes = pendingNotes;
+  }
+  return document;
+};
+
+// Settings and notes only survive when writing the format they came from
+export const serializeSubtitles = (document: SubtitleDocument, format: SubtitleFormat): string => {
+  const sameFormat = document.format === format;
+  const cues = [...document.cues].sort((a, b) => a.start - b.start);
+
+  if (format === SubtitleFormat.SRT) {
+    return cues.map((cue, i) => {
+      const settings = sameFormat && cue.settings ? ` ${cue.settings}` : '';
+      return `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}${settings}\n${cue.text}`;
+    }).join('\n\n') + '\n';
+  }
+
+  const blocks = [sameFormat && document.header ? document.header : 'WEBVTT'];
+  for (const cue of cues) {
+    if (sameFormat && cue.notes) blocks.push(...cue.notes);
+    const id = cue.identifier ? `${cue.identifier}\n` : '';
+    const settings = sameFormat && cue.settings ? ` ${cue.settings}` : '';
+    blocks.push(`${id}${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}${settings}\n${cue.text}`);
+  }
+  if (sameFormat && document.trailingNotes) blocks.push(...document.trailingNotes);
+  return blocks.join('\n\n') + '\n';
+};
+
+// Display text for a cue: WebVTT markup (<b>, <v Speaker>, timestamps) stripped
+export const getCueDisplayText = (cue: SubtitleCue): string =>
+  cue.text.replace(/<[^>]*>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+// --- Project Mapping ---
+
+// An imported file becomes one asset plus one clip per cue on the given track. Clips land on frames
+// like every other clip; the cue keeps the file's own times for export.
+export const createSubtitleClips = (
+  document: SubtitleDocument,
+  name: string,
+  trackId: string,
+  frameRate: number
+): { asset: MediaAsset; clips: TimelineClip[] } => {
+  const { cues, ...source } = document;
+  const asset: MediaAsset = {
+    id: crypto.randomUUID(),
+    type: MediaType.SUBTITLE,
+    src: '',
+    name,
+    duration: cues.reduce((max, cue) => Math.max(max, cue.end), 0),
+    subtitle: source,
+  };
+  const clips = cues.map(({ start, end, ...cue }) => snapClipToFrames({
+    id: crypto.randomUUID(),
+    assetId: asset.id,
+    startOffset: start,
+    mediaStart: 0,
+    duration: end - start,
+    trackId,
+    cue: { ...cue, fileTiming: { start, end } },
+  }, frameRate));
+  return { asset, clips };
+};
+
+// The file's times while the clip is still where they snap to, otherwise wherever it was moved or trimmed
+const getCueTiming = (clip: TimelineClip, frameRate: number): { start: number; end: number } => {
+  const fileTiming = clip.cue?.fileTiming;
+  if (fileTiming) {
+    const snapped = snapClipToFrames({ ...clip, startOffset: fileTiming.start, duration: fileTiming.end - fileTiming.start }, frameRate);
+    const unmoved = Math.abs(snapped.startOffset - clip.startOffset) < 1e-9 && Math.abs(snapped.duration - clip.duration) < 1e-9;
+    if (unmoved) return fileTiming;
+  }
+  return { start: clip.startOffset, end: clip.startOffset + clip.duration };
+};
+
+// Cues on a track back into a document, carrying over the header of the file they came from
+export const getTrackSubtitles = (project: Project, trackId: string): SubtitleDocument => {
+  const clips = project.timeline.filter(c => c.trackId === trackId && c.cue);
+  const source = clips
+    .map(c => project.assets.find(a => a.id === c.assetId)?.subtitle)
+    .find((s): s is SubtitleSource => !!s);
+
+  return {
+    format: source?.format ?? SubtitleFormat.VTT,
+    header: source?.header,
+    trailingNotes: source?.trailingNotes,
+    cues: clips.map(c => {
+      const { fileTiming, ...cue } = c.cue!;
+      return { ...cue, ...getCueTiming(c, project.settings.frameRate) };
+    }),
+  };
+};
@@ -0,0 +1,207 @@
+import { TimelineClip, TextStyle, TextAlign, TextVerticalAlign, TextAnimation, TextAnimationPreset } from '../types';
+import { DEFAULT_TEXT_COLOR } from './keyframes';
+
+// Draws text clips for the compositor and the text editor's live preview, so both match exactly.
+
+// The look every text clip had before styles existed
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: 'ui-sans-serif, system-ui, sans-serif',
+  fontSize: 36,
+  bold: true,
+  italic: false,
+  color: DEFAULT_TEXT_COLOR,
+  strokeColor: '#000000',
+  strokeWidth: 0,
+  shadow: true,
+  shadowColor: '#000000',
+  shadowBlur: 2,
+  backgroundColor: '#000000',
+  backgroundOpacity: 0,
+  align: TextAlign.CENTER,
+  verticalAlign: TextVerticalAlign.MIDDLE,
+};
+
+// Subtitles are not styled per cue; they use a fixed, broadcast-like look near the bottom of the frame
+export const SUBTITLE_TEXT_STYLE: TextStyle = {
+  ...DEFAULT_TEXT_STYLE,
+  fontSize: 28,
+  bold: false,
+  shadow: false,
+  backgroundOpacity: 0.6,
+  verticalAlign: TextVerticalAlign.BOTTOM,
+};
+
+export const FONT_FAMILIES = [
+  { label: 'Sans', value: 'ui-sans-serif, system-ui, sans-serif' },
+  { label: 'Serif', value: 'Georgia, "Times New Roman", serif' },
+  { label: 'Mono', value: 'ui-monospace, Menlo, monospace' },
+  { label: 'Impact', value: 'Impact, "Arial Black", sans-serif' },
+  { label: 'Handwritten', value: '"Comic Sans MS", "Marker Felt", cursive' },
+];
+
+export const TEXT_ANIMATION_LABELS: Record<TextAnimationPreset, string> = {
+  [TextAnimationPreset.TYPEWRITER]: 'Typewriter',
+  [TextAnimationPreset.FADE]: 'Fade',
+  [TextAnimationPreset.SLIDE]: 'Slide',
+  [TextAnimationPreset.POP]: 'Pop',
+};
+
+export const DEFAULT_TEXT_ANIMATION_DURATION = 0.5;
+
+const LINE_HEIGHT = 1.12;
+const FRAME_INSET = 48; // Distance from the frame edge for non-centered placement
+const BACKGROUND_PADDING = 12;
+const SLIDE_DISTANCE = 40;
+
+export const getTextStyle = (style?: TextStyle): TextStyle => ({ ...DEFAULT_TEXT_STYLE, ...style });
+
+// How far through its in/out animations a text clip is at a local time; 1 = fully shown
+export interface TextAnimationState {
+  opacity: number;
+  offsetY: number; // Reference pixels
+  scale: number;
+  revealed: number; // Fraction of characters shown
+}
+
+export const SHOWN: TextAnimationState = { opacity: 1, offsetY: 0, scale: 1, revealed: 1 };
+
+// Overshoots slightly before settling, like CSS 'ease-out-back'
+const easeOutBack = (t: number) => 1 + 2.70158 * (t - 1) ** 3 + 1.70158 * (t - 1) ** 2;
+
+const applyPreset = (state: TextAnimationState, animation: TextAnimation | undefined, progress: number, direction: 1 | -1): TextAnimationState => {
+  if (!animation || progress >= 1) return state;
+  const p = Math.max(0, progress);
+  switch (animation.preset) {
+    case TextAnimationPreset.TYPEWRITER:
+      return { ...state, revealed: Math.min(state.revealed, p) };
+    case TextAnimationPreset.FADE:
+      return { ...state, opacity: state.opacity * p };
+    case TextAnimationPreset.SLIDE:
+      // Rises in from below, and keeps rising on the way out
+      return { ...state, opacity: state.opacity * p, offsetY: state.offsetY + direction * (1 - p) * SLIDE_DISTANCE };
+    case TextAnimationPreset.POP:
+      return { ...state, opacity: state.opacity * Math.min(1, p * 2), scale: state.scale * Math.max(0, easeOutBack(p)) };
+  }
+};
+
+export const getTextAnimationState = (clip: TimelineClip, localTime: number): TextAnimationState => {
+  const inProgress = clip.textIn ? localTime / clip.textIn.duration : 1;
+  const outProgress = clip.textOut ? (clip.duration - localTime) / clip.textOut.duration : 1;
+  return applyPreset(applyPreset(SHOWN, clip.textIn, inProgress, 1), clip.textOut, outProgress, -1);
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+// Hex color plus an alpha, for the background box
+const withAlpha = (color: string, alpha: number) => {
+  const value = parseInt(color.replace('#', ''), 16) || 0;
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
+
+export interface TextLayout {
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+}
+
+// Lays out and draws a text block. `unit` scales reference pixels to the canvas.
+// `place` applies the clip transform around the block's default center and returns the result for hit-testing.
+export const drawStyledText = <T>(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  style: TextStyle,
+  color: string,
+  animation: TextAnimationState,
+  unit: number,
+  place: (box: TextLayout) => T
+): T => {
+  const { width, height } = ctx.canvas;
+  const fontSize = style.fontSize * unit;
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const inset = FRAME_INSET * unit;
+  const padding = style.backgroundOpacity > 0 ? BACKGROUND_PADDING * unit : 0;
+
+  ctx.save();
+  ctx.font = `${style.italic ? 'italic ' : ''}${style.bold ? 'bold ' : ''}${fontSize}px ${style.fontFamily}`;
+  const lines = wrapText(ctx, text, width - 2 * inset);
+  const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+  const boxWidth = textWidth + padding * 2;
+  const boxHeight = lines.length * lineHeight + padding * 2;
+
+  const cx = style.align === TextAlign.LEFT ? inset + boxWidth / 2
+    : style.align === TextAlign.RIGHT ? width - inset - boxWidth / 2
+    : width / 2;
+  const cy = style.verticalAlign === TextVerticalAlign.TOP ? inset + boxHeight / 2
+    : style.verticalAlign === TextVerticalAlign.BOTTOM ? height - inset - boxHeight / 2
+    : height / 2;
+
+  const result = place({ cx, cy, width: boxWidth, height: boxHeight });
+
+  // Animations play on top of the clip transform
+  ctx.globalAlpha *= animation.opacity;
+  ctx.translate(0, animation.offsetY * unit);
+  ctx.scale(animation.scale, animation.scale);
+
+  if (style.backgroundOpacity > 0) {
+    ctx.fillStyle = withAlpha(style.backgroundColor, style.backgroundOpacity);
+    ctx.beginPath();
+    ctx.roundRect(-boxWidth / 2, -boxHeight / 2, boxWidth, boxHeight, 6 * unit);
+    ctx.fill();
+  }
+
+  // Typewriter reveals characters across the already wrapped lines so the layout never jumps
+  let remaining = Math.floor(animation.revealed * lines.reduce((sum, line) => sum + line.length, 0));
+  const lineX = style.align === TextAlign.LEFT ? -textWidth / 2 : style.align === TextAlign.RIGHT ? textWidth / 2 : 0;
+  const top = -((lines.length - 1) * lineHeight) / 2;
+
+  ctx.textAlign = style.align;
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+  lines.forEach((line, i) => {
+    const visible = line.slice(0, Math.max(0, remaining));
+    remaining -= line.length;
+    if (!visible) return;
+    const y = top + i * lineHeight;
+
+    if (style.strokeWidth > 0) {
+      ctx.strokeStyle = style.strokeColor;
+      ctx.lineWidth = style.strokeWidth * 2 * unit; // Half the stroke is covered by the fill
+      ctx.strokeText(visible, lineX, y);
+    }
+    ctx.save();
+    if (style.shadow) {
+      ctx.shadowColor = style.shadowColor;
+      ctx.shadowOffsetY = 2 * unit;
+      ctx.shadowBlur = style.shadowBlur * unit;
+    }
+    ctx.fillStyle = color;
+    ctx.fillText(visible, lineX, y);
+    ctx.restore();
+  });
+
+  ctx.restore();
+  return result;
+};
+
+// Placement without a clip transform, e.g. for the text editor's preview
+export const placeAtCenter = (ctx: CanvasRenderingContext2D) => (box: TextLayout): TextLayout => {
+  ctx.translate(box.cx, box.cy);
+  return box;
+};
@@ -0,0 +1,74 @@
+// Tempo change without a pitch change, for rendering retimed clips offline (media elements do the
+// same live with preservesPitch). WSOLA: windowed grains are read `speed` times faster than they are
+// written, each nudged to the read position whose waveform best continues the previous grain.
+
+const GRAIN_SECONDS = 0.04;
+const SEEK_SECONDS = 0.01;
+// Every Nth sample is enough to line up waveforms
+const CORRELATION_STRIDE = 4;
+
+// Sum of the channels, which is what the grains are aligned on
+const mixDown = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+  const mix = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mix.length; i++) mix[i] += channel[i];
+  }
+  return mix;
+};
+
+// Read offset in [-seek, seek] around `nominal` whose first `length` samples best match `target`
+const findBestOffset = (signal: Float32Array, target: number, nominal: number, seek: number, length: number): number => {
+  if (target < 0) return 0;
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let offset = -seek; offset <= seek; offset++) {
+    const start = nominal + offset;
+    if (start < 0 || start + length > signal.length) continue;
+    let score = 0;
+    for (let i = 0; i < length; i += CORRELATION_STRIDE) score += signal[start + i] * signal[target + i];
+    if (score > bestScore) {
+      bestScore = score;
+      best = offset;
+    }
+  }
+  return best;
+};
+
+// Returns channels `speed` times shorter (longer when below 1) at the same pitch
+export const timeStretch = (channels: Float32Array[], speed: number, sampleRate: number): Float32Array[] => {
+  const inputLength = channels[0]?.length ?? 0;
+  const outputLength = Math.round(inputLength / speed);
+  const output = channels.map(() => new Float32Array(outputLength));
+  if (speed === 1) {
+    channels.forEach((channel, c) => output[c].set(channel.subarray(0, outputLength)));
+    return output;
+  }
+
+  const grain = Math.round(sampleRate * GRAIN_SECONDS / 2) * 2;
+  const hop = grain / 2;
+  const seek = Math.round(sampleRate * SEEK_SECONDS);
+  const envelope = Float32Array.from({ length: grain }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / grain));
+  const weights = new Float32Array(outputLength);
+  const guide = mixDown(channels);
+
+  let previous = 0; // Read position of the last grain
+  for (let write = 0; write < outputLength; write += hop) {
+    const nominal = Math.round(write * speed);
+    // The first grain has nothing to continue
+    const read = write === 0 ? 0 : nominal + findBestOffset(guide, Math.min(previous + hop, inputLength - hop), nominal, seek, hop);
+    for (let i = 0; i < grain && write + i < outputLength; i++) {
+      const source = read + i;
+      if (source >= inputLength) break;
+      channels.forEach((channel, c) => { output[c][write + i] += channel[source] * envelope[i]; });
+      weights[write + i] += envelope[i];
+    }
+    previous = read;
+  }
+
+  // Evens out the edges, where fewer than two grains overlap
+  for (let i = 0; i < outputLength; i++) {
+    if (weights[i] > 1e-3) output.forEach(channel => { channel[i] /= weights[i]; });
+  }
+  return output;
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { formatDuration, getPlaybackStop } from './timecode';
+
+describe('getPlaybackStop', () => {
+  it('keeps forward playback going from the start', () => {
+    // The first reading after the clock switches hasn't moved yet
+    expect(getPlaybackStop(0, 1, 10)).toBeNull();
+    expect(getPlaybackStop(0, 2, 10)).toBeNull();
+  });
+
+  it('stops forward playback at the end', () => {
+    expect(getPlaybackStop(10.02, 1, 10)).toBe(10);
+  });
+
+  it('stops reverse playback at the start', () => {
+    expect(getPlaybackStop(-0.03, -1, 10)).toBe(0);
+    expect(getPlaybackStop(0, -2, 10)).toBe(0);
+  });
+
+  it('keeps reverse playback going from the end', () => {
+    expect(getPlaybackStop(10, -1, 10)).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  it('shows minutes and seconds under an hour', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(62.9)).toBe('1:02');
+    expect(formatDuration(3599)).toBe('59:59');
+  });
+
+  it('adds hours instead of wrapping', () => {
+    expect(formatDuration(3600)).toBe('1:00:00');
+    expect(formatDuration(37230)).toBe('10:20:30');
+  });
+});
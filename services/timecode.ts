@@ -0,0 +1,67 @@
+import { TimelineClip } from '../types';
+
+// Frame-accurate time. Times stay in seconds everywhere, but every edit lands on a whole frame of the
+// project's frame rate, and is shown as SMPTE timecode (HH:MM:SS:FF, non-drop-frame).
+
+// Tolerance for seconds that are a whole frame apart from float noise (e.g. 0.1 * 3)
+const FRAME_EPSILON = 1e-6;
+
+export const toFrames = (time: number, frameRate: number): number => Math.round(time * frameRate);
+
+export const snapToFrame = (time: number, frameRate: number): number => toFrames(time, frameRate) / frameRate;
+
+// Rounds down, for lengths that must not run past the end of their media
+export const floorToFrame = (time: number, frameRate: number): number =>
+  Math.floor(time * frameRate + FRAME_EPSILON) / frameRate;
+
+export const formatTimecode = (time: number, frameRate: number): string => {
+  const fps = Math.round(frameRate);
+  const totalFrames = Math.max(0, toFrames(time, frameRate));
+  const frames = totalFrames % fps;
+  const totalSeconds = Math.floor(totalFrames / fps);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}:${pad(frames)}`;
+};
+
+// Accepts full or shortened timecode ("1:02:03:04", "3:04", "15"), counting fields from the frames
+// end, with ":", ";" or "." separators. Returns seconds, or null when the text isn't timecode.
+export const parseTimecode = (text: string, frameRate: number): number | null => {
+  const fields = text.trim().split(/[:;.]/);
+  if (fields.length > 4 || fields.some(field => !/^\d+$/.test(field))) return null;
+
+  const [frames = 0, seconds = 0, minutes = 0, hours = 0] = fields.reverse().map(Number);
+  const fps = Math.round(frameRate);
+  return (((hours * 60 + minutes) * 60 + seconds) * fps + frames) / fps;
+};
+
+// Puts a clip's edges and media offset on frame boundaries. Both edges round to their nearest frame,
+// so clips that touched or didn't overlap before still don't overlap after.
+export const snapClipToFrames = (clip: TimelineClip, frameRate: number): TimelineClip => {
+  const startOffset = snapToFrame(clip.startOffset, frameRate);
+  const end = Math.max(snapToFrame(clip.startOffset + clip.duration, frameRate), startOffset + 1 / frameRate);
+  return {
+    ...clip,
+    startOffset,
+    duration: end - startOffset,
+    mediaStart: snapToFrame(clip.mediaStart, frameRate),
+  };
+};
+
+// Whole seconds as m:ss, or h:mm:ss from an hour up, for lengths shown without a frame rate
+export const formatDuration = (time: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(time));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor(totalSeconds / 60) % 60;
+  const seconds = pad(totalSeconds % 60);
+  return hours > 0 ? `${hours}:${pad(minutes)}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+// Where playback moving at `rate` has to stop, once the playhead reaches `time`: the end going forwards,
+// the start going backwards, or null to keep playing. Only the edge it is heading for counts, so playback
+// that starts at one edge, where the first clock reading hasn't moved yet, isn't stopped on the spot.
+export const getPlaybackStop = (time: number, rate: number, duration: number): number | null => {
+  if (rate > 0 && duration > 0 && time >= duration) return duration;
+  if (rate < 0 && time <= 0) return 0;
+  return null;
+};
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { TimelineClip } from '../types';
+import { EditMode, getEditPoints, placeClip, placeClips, rippleDelete, shiftClips, splitClipAt } from './timelineOps';
+
+const clip = (id: string, startOffset: number, duration: number, trackId = 'v1', mediaStart = 0): TimelineClip => ({
+  id,
+  assetId: 'asset',
+  trackId,
+  startOffset,
+  duration,
+  mediaStart,
+});
+
+// [id, start, duration, mediaStart] per clip on a track, in timeline order
+const layout = (timeline: TimelineClip[], trackId = 'v1') =>
+  timeline
+    .filter(c => c.trackId === trackId)
+    .sort((a, b) => a.startOffset - b.startOffset)
+    .map(c => [c.id, c.startOffset, c.duration, c.mediaStart]);
+
+const ids = (timeline: TimelineClip[]) => timeline.map(c => c.id);
+
+describe('splitClipAt', () => {
+  it('splits a clip into two pieces that cover the same media', () => {
+    const [left, right] = splitClipAt(clip('a', 2, 4, 'v1', 10), 3, 'b')!;
+    expect([left.id, left.startOffset, left.duration, left.mediaStart]).toEqual(['a', 2, 1, 10]);
+    expect([right.id, right.startOffset, right.duration, right.mediaStart]).toEqual(['b', 3, 3, 11]);
+  });
+
+  it('returns null outside the clip or on its edges', () => {
+    expect(splitClipAt(clip('a', 2, 4), 2)).toBeNull();
+    expect(splitClipAt(clip('a', 2, 4), 6)).toBeNull();
+    expect(splitClipAt(clip('a', 2, 4), 8)).toBeNull();
+  });
+
+  it('gives the right piece a fresh id', () => {
+    const original = clip('a', 0, 4);
+    const [, first] = splitClipAt(original, 2)!;
+    const [, second] = splitClipAt(original, 2)!;
+    expect(first.id).not.toBe('a');
+    expect(first.id).not.toBe(second.id);
+  });
+});
+
+describe('placeClips in overwrite mode', () => {
+  it('trims the clips a placed clip lands on', () => {
+    const timeline = [clip('a', 0, 4), clip('b', 4, 4), clip('new', 3, 2)];
+    expect(layout(placeClip(timeline, 'new', EditMode.OVERWRITE))).toEqual([
+      ['a', 0, 3, 0],
+      ['new', 3, 2, 0],
+      ['b', 5, 3, 1],
+    ]);
+  });
+
+  it('removes clips that are covered completely', () => {
+    const timeline = [clip('a', 1, 1), clip('b', 3, 1), clip('new', 0, 5)];
+    expect(ids(placeClip(timeline, 'new', EditMode.OVERWRITE))).toEqual(['new']);
+  });
+
+  it('splits a clip the placed clip lands inside, with a new id for the tail', () => {
+    const timeline = [clip('a', 0, 10), clip('new', 4, 2)];
+    const result = placeClip(timeline, 'new', EditMode.OVERWRITE);
+    const [head, placed, tail] = layout(result);
+    expect(head).toEqual(['a', 0, 4, 0]);
+    expect(placed).toEqual(['new', 4, 2, 0]);
+    expect(tail.slice(1)).toEqual([6, 4, 6]);
+    expect(new Set(ids(result)).size).toBe(3);
+  });
+
+  it('never produces duplicate ids when the same cut is made twice', () => {
+    let timeline = [clip('a', 0, 10), clip('x', 4, 2)];
+    timeline = placeClip(timeline, 'x', EditMode.OVERWRITE);
+    // Put the tail back where it was and cut again at the same time
+    timeline = [...timeline.filter(c => c.id !== 'x'), clip('y', 4, 2)];
+    timeline = placeClip(timeline, 'y', EditMode.OVERWRITE);
+    expect(new Set(ids(timeline)).size).toBe(timeline.length);
+  });
+
+  it('leaves other tracks alone', () => {
+    const timeline = [clip('a', 0, 4), clip('other', 0, 4, 'v2'), clip('new', 1, 2)];
+    const result = placeClip(timeline, 'new', EditMode.OVERWRITE);
+    expect(layout(result, 'v2')).toEqual([['other', 0, 4, 0]]);
+  });
+
+  it('moves a group without the clips in it trimming each other', () => {
+    const timeline = [clip('a', 0, 10), clip('g1', 2, 2), clip('g2', 3, 2)];
+    const result = placeClips(timeline, ['g1', 'g2'], EditMode.OVERWRITE);
+    expect(layout(result).filter(([id]) => id === 'g1' || id === 'g2')).toEqual([
+      ['g1', 2, 2, 0],
+      ['g2', 3, 2, 0],
+    ]);
+    expect(layout(result).find(([id]) => id === 'a')).toEqual(['a', 0, 2, 0]);
+  });
+});
+
+describe('placeClips in insert mode', () => {
+  it('pushes later clips right by the overlap', () => {
+    const timeline = [clip('a', 0, 2), clip('b', 2, 2), clip('new', 2, 3)];
+    expect(layout(placeClip(timeline, 'new', EditMode.INSERT))).toEqual([
+      ['a', 0, 2, 0],
+      ['new', 2, 3, 0],
+      ['b', 5, 2, 0],
+    ]);
+  });
+
+  it('splits a straddling clip and moves its tail with the later clips', () => {
+    const timeline = [clip('a', 0, 4), clip('b', 4, 2), clip('new', 1, 2)];
+    const [head, placed, tail, later] = layout(placeClip(timeline, 'new', EditMode.INSERT));
+    expect(head).toEqual(['a', 0, 1, 0]);
+    expect(placed).toEqual(['new', 1, 2, 0]);
+    expect(tail.slice(1)).toEqual([3, 3, 1]);
+    expect(tail[0]).not.toBe('a');
+    expect(later).toEqual(['b', 6, 2, 0]);
+  });
+
+  it('does not move clips that leave room already', () => {
+    const timeline = [clip('a', 0, 2), clip('b', 6, 2), clip('new', 2, 3)];
+    expect(layout(placeClip(timeline, 'new', EditMode.INSERT))).toEqual([
+      ['a', 0, 2, 0],
+      ['new', 2, 3, 0],
+      ['b', 6, 2, 0],
+    ]);
+  });
+
+  it('opens one gap as wide as the whole group', () => {
+    const timeline = [clip('a', 0, 2), clip('b', 2, 2), clip('g1', 2, 1), clip('g2', 4, 1)];
+    expect(layout(placeClips(timeline, ['g1', 'g2'], EditMode.INSERT)).find(([id]) => id === 'b')).toEqual(['b', 5, 2, 0]);
+  });
+
+  it('does not mutate its input', () => {
+    const timeline = [clip('a', 0, 4), clip('new', 1, 2)];
+    const snapshot = structuredClone(timeline);
+    placeClip(timeline, 'new', EditMode.INSERT);
+    expect(timeline).toEqual(snapshot);
+  });
+});
+
+describe('rippleDelete', () => {
+  it('closes the gap on the same track only', () => {
+    const timeline = [clip('a', 0, 2), clip('b', 2, 3), clip('c', 5, 1), clip('other', 6, 1, 'v2')];
+    const result = rippleDelete(timeline, 'b');
+    expect(layout(result)).toEqual([
+      ['a', 0, 2, 0],
+      ['c', 2, 1, 0],
+    ]);
+    expect(layout(result, 'v2')).toEqual([['other', 6, 1, 0]]);
+  });
+
+  it('leaves clips before the deleted one in place', () => {
+    const timeline = [clip('a', 0, 2), clip('b', 4, 2), clip('c', 8, 1)];
+    expect(layout(rippleDelete(timeline, 'b'))).toEqual([
+      ['a', 0, 2, 0],
+      ['c', 6, 1, 0],
+    ]);
+  });
+
+  it('returns the same timeline for an unknown clip', () => {
+    const timeline = [clip('a', 0, 2)];
+    expect(rippleDelete(timeline, 'missing')).toBe(timeline);
+  });
+});
+
+describe('shiftClips and getEditPoints', () => {
+  it('stops a shifted group at zero', () => {
+    const timeline = [clip('a', 1, 1), clip('b', 3, 1)];
+    expect(layout(shiftClips(timeline, ['a', 'b'], -5))).toEqual([
+      ['a', 0, 1, 0],
+      ['b', 2, 1, 0],
+    ]);
+  });
+
+  it('lists every cut once, in order', () => {
+    const timeline = [clip('a', 0, 2), clip('b', 2, 2), clip('c', 1, 4, 'v2')];
+    expect(getEditPoints(timeline)).toEqual([0, 1, 2, 4, 5]);
+  });
+});
@@ -0,0 +1,160 @@
+import { TimelineClip } from '../types';
+import { shiftKeyframes, splitKeyframes } from './keyframes';
+import { getRangeMediaStart } from './clipSpeed';
+
+// Pure timeline edits. Every function returns a new timeline and never mutates its input,
+// so results depend only on the arguments (apart from the random ids of split-off pieces)
+// and can be checked in isolation.
+
+export enum EditMode {
+  INSERT = 'insert', // Push later clips on the track to make room
+  OVERWRITE = 'overwrite', // Trim or remove whatever the clip lands on
+}
+
+// Below this, overlaps are treated as floating point noise rather than collisions
+const EPSILON = 1e-6;
+// Clips closer than this count as touching (e.g. a snapped cut)
+const ADJACENT_TOLERANCE = 0.001;
+
+const clipEnd = (clip: TimelineClip) => clip.startOffset + clip.duration;
+
+// Stable order for everything on a track: by start time, then id
+const compareClips = (a: TimelineClip, b: TimelineClip) =>
+  a.startOffset - b.startOffset || a.id.localeCompare(b.id);
+
+// Splits a clip at a timeline time. Returns null if the time is not strictly inside the clip.
+export const splitClipAt = (
+  clip: TimelineClip,
+  time: number,
+  newId: string = crypto.randomUUID()
+): [TimelineClip, TimelineClip] | null => {
+  const offset = time - clip.startOffset;
+  if (offset <= EPSILON || offset >= clip.duration - EPSILON) return null;
+  const [leftKeys, rightKeys] = splitKeyframes(clip.keyframes, offset);
+  return [
+    // Fades stay on the outer edges
+    { ...clip, duration: offset, mediaStart: getRangeMediaStart(clip, 0, offset), keyframes: leftKeys, fadeOut: undefined },
+    {
+      ...clip,
+      id: newId,
+      startOffset: time,
+      mediaStart: getRangeMediaStart(clip, offset, clip.duration - offset),
+      duration: clip.duration - offset,
+      transitionIn: undefined, // The cut it described now belongs to the left piece
+      keyframes: rightKeys,
+      fadeIn: undefined,
+    },
+  ];
+};
+
+// The clip that ends exactly where `clip` starts on the same track, i.e. the outgoing side of its transition.
+export const getPreviousAdjacentClip = (timeline: TimelineClip[], clip: TimelineClip): TimelineClip | undefined =>
+  timeline.find(c =>
+    c.trackId === clip.trackId && c.id !== clip.id && Math.abs(clipEnd(c) - clip.startOffset) < ADJACENT_TOLERANCE
+  );
+
+// A transition can never reach past either neighbour, whatever duration was requested.
+export const getTransitionDuration = (outgoing: TimelineClip, incoming: TimelineClip): number =>
+  Math.min(incoming.transitionIn?.duration ?? 0, outgoing.duration, incoming.duration);
+
+// Removes the [start, end) range from a clip, keeping whatever is left on either side.
+const cutRange = (clip: TimelineClip, start: number, end: number): TimelineClip[] => {
+  if (clipEnd(clip) <= start + EPSILON || clip.startOffset >= end - EPSILON) return [clip];
+
+  const pieces: TimelineClip[] = [];
+  if (clip.startOffset < start - EPSILON) {
+    const duration = start - clip.startOffset;
+    pieces.push({ ...clip, duration, mediaStart: getRangeMediaStart(clip, 0, duration), fadeOut: undefined });
+  }
+  if (clipEnd(clip) > end + EPSILON) {
+    const trimmed = end - clip.startOffset;
+    pieces.push({
+      ...clip,
+      // The original id stays with the left piece when both survive
+      id: pieces.length > 0 ? crypto.randomUUID() : clip.id,
+      startOffset: end,
+      mediaStart: getRangeMediaStart(clip, trimmed, clipEnd(clip) - end),
+      duration: clipEnd(clip) - end,
+      transitionIn: undefined,
+      keyframes: shiftKeyframes(clip.keyframes, -trimmed),
+      fadeIn: undefined,
+    });
+  }
+  return pieces;
+};
+
+const overwrite = (others: TimelineClip[], placed: TimelineClip): TimelineClip[] =>
+  others.flatMap(clip => cutRange(clip, placed.startOffset, clipEnd(placed)));
+
+const insert = (others: TimelineClip[], placed: TimelineClip): TimelineClip[] => {
+  const at = placed.startOffset;
+
+  // A clip straddling the insertion point is split so its tail moves with the clips after it
+  const pieces = others.flatMap(clip => splitClipAt(clip, at) ?? [clip]);
+
+  const later = pieces.filter(c => c.startOffset >= at - EPSILON).sort(compareClips);
+  if (later.length === 0) return pieces;
+
+  const shift = Math.max(0, clipEnd(placed) - later[0].startOffset);
+  if (shift <= EPSILON) return pieces;
+
+  const laterIds = new Set(later.map(c => c.id));
+  return pieces.map(c => laterIds.has(c.id) ? { ...c, startOffset: c.startOffset + shift } : c);
+};
+
+// Resolves collisions after clips have been added, moved or trimmed so their tracks have no overlaps.
+// The clips move as a group: they never trim or push each other, only the clips around them.
+export const placeClips = (timeline: TimelineClip[], clipIds: string[], mode: EditMode): TimelineClip[] => {
+  const ids = new Set(clipIds);
+  const group = timeline.filter(c => ids.has(c.id));
+  const trackIds = new Set(group.map(c => c.trackId));
+  if (trackIds.size === 0) return timeline;
+
+  const untouched = timeline.filter(c => !trackIds.has(c.trackId));
+  const resolvedTracks = [...trackIds].flatMap(trackId => {
+    const placed = group.filter(c => c.trackId === trackId);
+    const sameTrack = timeline.filter(c => c.trackId === trackId && !ids.has(c.id));
+    // Inserting opens one gap as wide as the group's whole span on the track
+    const resolved = mode === EditMode.INSERT
+      ? insert(sameTrack, {
+          ...placed[0],
+          startOffset: Math.min(...placed.map(c => c.startOffset)),
+          duration: Math.max(...placed.map(clipEnd)) - Math.min(...placed.map(c => c.startOffset)),
+        })
+      : placed.reduce((clips, clip) => overwrite(clips, clip), sameTrack);
+    return [...resolved, ...placed].sort(compareClips);
+  });
+  return [...untouched, ...resolvedTracks];
+};
+
+export const placeClip = (timeline: TimelineClip[], clipId: string, mode: EditMode): TimelineClip[] =>
+  placeClips(timeline, [clipId], mode);
+
+// Deletes a clip and pulls the clips after it on the same track left to close the gap.
+export const rippleDelete = (timeline: TimelineClip[], clipId: string): TimelineClip[] => {
+  const removed = timeline.find(c => c.id === clipId);
+  if (!removed) return timeline;
+
+  const gapEnd = clipEnd(removed);
+  return timeline
+    .filter(c => c.id !== clipId)
+    .map(c =>
+      c.trackId === removed.trackId && c.startOffset >= gapEnd - EPSILON
+        ? { ...c, startOffset: Math.max(0, c.startOffset - removed.duration) }
+        : c
+    );
+};
+
+// Moves clips together by the same amount, stopping the earliest one at zero.
+export const shiftClips = (timeline: TimelineClip[], clipIds: string[], delta: number): TimelineClip[] => {
+  const ids = new Set(clipIds);
+  const earliest = Math.min(...timeline.filter(c => ids.has(c.id)).map(c => c.startOffset));
+  const shift = Math.max(delta, -earliest);
+  return timeline.map(c => ids.has(c.id) ? { ...c, startOffset: c.startOffset + shift } : c);
+};
+
+// Every clip start and end across all tracks, in order, for jumping the playhead between cuts.
+export const getEditPoints = (timeline: TimelineClip[]): number[] => {
+  const points = timeline.flatMap(clip => [clip.startOffset, clipEnd(clip)]).sort((a, b) => a - b);
+  return points.filter((point, i) => i === 0 || point - points[i - 1] > ADJACENT_TOLERANCE);
+};
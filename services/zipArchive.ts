@@ -0,0 +1,149 @@
+// Minimal ZIP reader/writer for project bundles. Entries are stored uncompressed: media is already
+// compressed, so deflating it would cost time for next to no gain. Zip64 is not supported.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_DIRECTORY_SIZE = 22;
+// The end record may be followed by a comment of up to this many bytes
+const MAX_COMMENT_SIZE = 0xffff;
+
+const VERSION = 20; // 2.0: the oldest spec that covers everything written here
+const UTF8_FLAG = 0x0800;
+const STORED = 0;
+const MAX_SIZE = 0xffffffff;
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, which is what the headers store
+const toDosDateTime = (date: Date): [number, number] => [
+  (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+];
+
+export const createZip = (entries: ZipEntry[], modified = new Date()): Blob => {
+  const encoder = new TextEncoder();
+  const [time, date] = toDosDateTime(modified);
+  const parts: BlobPart[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const size = entry.data.length;
+    const crc = crc32(entry.data);
+
+    const local = new DataView(new ArrayBuffer(LOCAL_HEADER_SIZE));
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    local.setUint16(4, VERSION, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, STORED, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+
+    const central = new Uint8Array(CENTRAL_HEADER_SIZE + name.length);
+    const header = new DataView(central.buffer);
+    header.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    header.setUint16(4, VERSION, true);
+    header.setUint16(6, VERSION, true);
+    header.setUint16(8, UTF8_FLAG, true);
+    header.setUint16(10, STORED, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, size, true);
+    header.setUint32(24, size, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.set(name, CENTRAL_HEADER_SIZE);
+    directory.push(central);
+
+    parts.push(local.buffer, name, entry.data);
+    offset += LOCAL_HEADER_SIZE + name.length + size;
+    if (offset > MAX_SIZE) throw new Error("The bundle would be larger than 4 GB, which is not supported.");
+  }
+
+  const directorySize = directory.reduce((sum, d) => sum + d.length, 0);
+  const end = new DataView(new ArrayBuffer(END_OF_DIRECTORY_SIZE));
+  end.setUint32(0, END_OF_DIRECTORY_SIGNATURE, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end.buffer], { type: 'application/zip' });
+};
+
+const findEndOfDirectory = (view: DataView): number => {
+  const earliest = Math.max(0, view.byteLength - END_OF_DIRECTORY_SIZE - MAX_COMMENT_SIZE);
+  for (let i = view.byteLength - END_OF_DIRECTORY_SIZE; i >= earliest; i--) {
+    if (view.getUint32(i, true) === END_OF_DIRECTORY_SIGNATURE) return i;
+  }
+  throw new Error("The file is not a ZIP archive.");
+};
+
+// Entries by name. Only stored (uncompressed) entries can be read, which covers every bundle the editor writes.
+export const readZip = (buffer: ArrayBuffer): Map<string, Uint8Array> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+  const end = findEndOfDirectory(view);
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+
+  const entries = new Map<string, Uint8Array>();
+  for (let i = 0; i < count; i++) {
+    if (position + CENTRAL_HEADER_SIZE > buffer.byteLength || view.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error("The archive's file list is damaged.");
+    }
+    const method = view.getUint16(position + 10, true);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + CENTRAL_HEADER_SIZE, position + CENTRAL_HEADER_SIZE + nameLength));
+    position += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Folder entries carry no data
+    if (method !== STORED) {
+      throw new Error(`"${name}" is compressed, which is not supported. Re-export the project from the editor.`);
+    }
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`"${name}" is damaged.`);
+    }
+    const start = localOffset + LOCAL_HEADER_SIZE + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (start + size > buffer.byteLength) throw new Error(`"${name}" is truncated.`);
+    const data = bytes.subarray(start, start + size);
+    if (crc32(data) !== crc) throw new Error(`"${name}" is damaged (checksum mismatch).`);
+    entries.set(name, data);
+  }
+  return entries;
+};
@@ -3,6 +3,19 @@ export enum MediaType {
   IMAGE = 'image',
   AUDIO = 'audio',
   TEXT = 'text',
+  SUBTITLE = 'subtitle', // An imported caption file; its cues are the clips that reference it
+}
+
+export enum SubtitleFormat {
+  SRT = 'srt',
+  VTT = 'vtt',
+}
+
+// What a caption file holds besides its cues, kept so exports reproduce it
+export interface SubtitleSource {
+  format: SubtitleFormat;
+  header?: string; // WebVTT only: the WEBVTT line plus any STYLE/REGION blocks, verbatim
+  trailingNotes?: string[]; // WebVTT NOTE blocks after the last cue
 }
 
 export interface MediaAsset {
@@ -13,6 +26,164 @@ export interface MediaAsset {
   duration: number; // In seconds. Images/Text have a default duration.
   thumbnail?: string;
   textContent?: string; // Specific for Text type
+  textStyle?: TextStyle; // Specific for Text type, defaults when absent
+  subtitle?: SubtitleSource; // Specific for Subtitle type
+}
+
+export enum TextAlign {
+  LEFT = 'left',
+  CENTER = 'center',
+  RIGHT = 'right',
+}
+
+export enum TextVerticalAlign {
+  TOP = 'top',
+  MIDDLE = 'middle',
+  BOTTOM = 'bottom',
+}
+
+// Sizes are in pixels at the editor's reference preview width and scale with the output
+export interface TextStyle {
+  fontFamily: string; // CSS font stack
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+  color: string;
+  strokeColor: string;
+  strokeWidth: number; // 0 = no outline
+  shadow: boolean;
+  shadowColor: string;
+  shadowBlur: number;
+  backgroundColor: string;
+  backgroundOpacity: number; // 0 = no box
+  align: TextAlign; // Line alignment and horizontal placement in the frame
+  verticalAlign: TextVerticalAlign;
+}
+
+export enum TextAnimationPreset {
+  TYPEWRITER = 'typewriter',
+  FADE = 'fade',
+  SLIDE = 'slide',
+  POP = 'pop',
+}
+
+export interface TextAnimation {
+  preset: TextAnimationPreset;
+  duration: number;
+}
+
+export enum TrackKind {
+  VIDEO = 'video', // Video and image clips
+  TEXT = 'text',
+  AUDIO = 'audio',
+  SUBTITLE = 'subtitle',
+}
+
+export interface Track {
+  id: string;
+  kind: TrackKind;
+  name: string;
+  order: number; // Position in the timeline, top (0) to bottom. Lower tracks composite underneath.
+  muted: boolean;
+  solo: boolean;
+  locked: boolean; // Clips cannot be edited
+  hidden: boolean; // Excluded from preview and export
+}
+
+export enum TransitionType {
+  CROSSFADE = 'crossfade',
+  DIP_TO_BLACK = 'dipToBlack',
+  WIPE = 'wipe',
+  SLIDE = 'slide',
+}
+
+// Centered on the cut into the clip that owns it, overlapping both neighbours by half the duration
+export interface Transition {
+  type: TransitionType;
+  duration: number;
+}
+
+// Fractions of the source trimmed from each edge
+export interface CropRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Applied on top of the clip's default layout (full frame on the base track, picture-in-picture above it)
+export interface ClipTransform {
+  x: number; // Center offset as a fraction of the frame width
+  y: number; // Center offset as a fraction of the frame height
+  scale: number; // 1 = default size
+  rotation: number; // Degrees clockwise
+  opacity: number; // 0..1
+  crop: CropRect;
+}
+
+export enum EasingType {
+  LINEAR = 'linear',
+  EASE = 'ease', // CSS 'ease-in-out'
+  BEZIER = 'bezier',
+}
+
+// Neutral at 0. Brightness, contrast and saturation scale by (1 + value), so -1 is black, flat grey or
+// grayscale; temperature runs from cool (-1) to warm (1)
+export interface ColorAdjustments {
+  brightness: number; // -1..1
+  contrast: number; // -1..1
+  saturation: number; // -1..1
+  temperature: number; // -1..1
+  vignette: number; // 0..1, darkening at the corners
+  blur: number; // Radius in pixels at the editor's reference preview width
+}
+
+export type AdjustmentProperty = keyof ColorAdjustments;
+
+export enum FilterPreset {
+  MONO = 'mono',
+  NOIR = 'noir',
+  SEPIA = 'sepia',
+  VINTAGE = 'vintage',
+  VIVID = 'vivid',
+  FADED = 'faded',
+}
+
+// Keys a background color out of an overlay clip, so the tracks below show through
+export interface ChromaKey {
+  color: string; // Hex
+  tolerance: number; // 0..1, how far from the key color is fully removed
+  softness: number; // 0..1, the distance beyond that over which pixels fade back in
+  spill: number; // 0..1, how much of the key color is taken out of what remains
+}
+
+// A 3D lookup table imported from a .cube file, shared by the clips that use it
+export interface ColorLut {
+  id: string;
+  name: string;
+  size: number; // Points along each axis
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  data: number[]; // size^3 RGB triples, red changing fastest
+}
+
+export type AnimatableProperty = 'x' | 'y' | 'scale' | 'rotation' | 'opacity' | 'volume' | 'textColor' | AdjustmentProperty;
+
+export interface Keyframe {
+  time: number; // Seconds from the start of the clip, so keys move with it
+  value: number | string; // Hex string for colors
+  easing: EasingType; // Shapes the segment from this key to the next
+  bezier?: [number, number, number, number]; // Control points (x1, y1, x2, y2) for BEZIER
+}
+
+export interface SubtitleCue {
+  text: string; // Raw cue payload, including any WebVTT markup
+  identifier?: string; // WebVTT cue id (SRT numbering is regenerated on export)
+  settings?: string; // Whatever follows the timing arrow, e.g. "align:start line:90%"
+  notes?: string[]; // WebVTT NOTE blocks directly before this cue
+  // Times as read from the file, which the clip snaps to frames. Exported instead of the clip's own
+  // times for as long as the clip stays where they snap to, so files round-trip to the millisecond.
+  fileTiming?: { start: number; end: number };
 }
 
 export interface TimelineClip {
@@ -21,13 +192,39 @@ export interface TimelineClip {
   startOffset: number; // Where in the global timeline this clip starts
   mediaStart: number; // Where in the source media this clip starts (trimming)
   duration: number; // How long this clip plays
-  trackIndex: number; // 0: Main, 1: Overlay, 2: Text, 3: Audio
+  trackId: string;
+  speed?: number; // Source seconds per timeline second, 1 when absent (0.25..4)
+  reversed?: boolean; // Plays its source range backwards
+  transitionIn?: Transition; // From the clip that ends where this one starts on the same track
+  transform?: ClipTransform; // Identity when absent
+  adjustments?: Partial<ColorAdjustments>; // Visual clips only; missing values are neutral
+  filter?: FilterPreset; // Visual clips only, applied before the adjustments
+  lutId?: string; // Visual clips only, one of the project's LUTs applied after the adjustments
+  chromaKey?: ChromaKey; // Clips on overlay video tracks only
+  volume?: number; // Gain, 1 (unity) when absent; up to 2 to boost quiet sources
+  fadeIn?: number; // Seconds of linear fade from silence at the clip start
+  fadeOut?: number; // Seconds of linear fade to silence at the clip end
+  keyframes?: Partial<Record<AnimatableProperty, Keyframe[]>>; // Sorted by time; override the static value
+  textIn?: TextAnimation; // Text clips only, played from the clip start
+  textOut?: TextAnimation; // Text clips only, played into the clip end
+  cue?: SubtitleCue; // Subtitle clips only
+}
+
+// The canvas the project is edited and exported at; every clip time falls on a frame of `frameRate`
+export interface ProjectSettings {
+  frameRate: number;
+  width: number;
+  height: number;
 }
 
 export interface Project {
   id: string;
   name: string;
+  schemaVersion: number; // Shape the project was saved in; older ones are migrated on load
   lastModified: number;
+  settings: ProjectSettings;
   assets: MediaAsset[];
+  tracks: Track[];
   timeline: TimelineClip[];
+  luts?: ColorLut[];
 }
\ No newline at end of file